@@ -101,9 +101,10 @@ describe('convertToNordlysResponseInput', () => {
     }
   });
 
-  it('should handle assistant messages with warning', () => {
+  it('should convert assistant messages to assistant message items', () => {
     const result = convertToNordlysResponseInput({
       prompt: [
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
         {
           role: 'assistant',
           content: [{ type: 'text', text: 'Previous response' }],
@@ -112,8 +113,16 @@ describe('convertToNordlysResponseInput', () => {
       ],
     });
 
-    expect(result.warnings.length).toBeGreaterThan(0);
-    expect(Array.isArray(result.input)).toBe(true);
+    expect(result.warnings).toEqual([]);
+    expect(result.input).toEqual([
+      { role: 'user', content: [{ type: 'input_text', text: 'Hi' }] },
+      {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'output_text', text: 'Previous response' }],
+      },
+      { role: 'user', content: [{ type: 'input_text', text: 'Hello' }] },
+    ]);
   });
 
   it('should convert assistant message with tool-call to function_call item', () => {
@@ -189,7 +198,7 @@ describe('convertToNordlysResponseInput', () => {
     }
   });
 
-  it('should convert assistant message with text and tool-call to both user message and function_call', () => {
+  it('should convert assistant message with text and tool-call to assistant message and function_call in order', () => {
     const result = convertToNordlysResponseInput({
       prompt: [
         {
@@ -202,24 +211,220 @@ describe('convertToNordlysResponseInput', () => {
               toolName: 'test_tool',
               input: { param: 'value' },
             },
+            { type: 'text', text: 'Then ' },
+            { type: 'text', text: 'summarize' },
           ],
         },
       ],
     });
 
-    expect(Array.isArray(result.input)).toBe(true);
-    if (Array.isArray(result.input)) {
-      // Tool-calls are added immediately, then text is converted to user message
-      expect(result.input[0]).toMatchObject({
+    expect(result.warnings).toEqual([]);
+    expect(result.input).toEqual([
+      {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'output_text', text: 'I will call the tool' }],
+      },
+      {
         type: 'function_call',
         call_id: 'call-1',
         name: 'test_tool',
         arguments: '{"param":"value"}',
-      });
-      expect(result.input[1]).toMatchObject({
-        role: 'user',
-      });
-    }
+      },
+      {
+        type: 'message',
+        role: 'assistant',
+        content: [
+          { type: 'output_text', text: 'Then ' },
+          { type: 'output_text', text: 'summarize' },
+        ],
+      },
+    ]);
+  });
+
+  it('should convert assistant reasoning with Nordlys metadata to reasoning items', () => {
+    const result = convertToNordlysResponseInput({
+      prompt: [
+        { role: 'user', content: [{ type: 'text', text: 'Solve it' }] },
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'reasoning',
+              text: 'First step',
+              providerOptions: {
+                nordlys: {
+                  itemId: 'rs-1',
+                  reasoningEncryptedContent: 'encrypted-1',
+                },
+              },
+            },
+            {
+              type: 'reasoning',
+              text: 'Second step',
+              providerOptions: {
+                nordlys: {
+                  itemId: 'rs-1',
+                  reasoningEncryptedContent: 'encrypted-1',
+                },
+              },
+            },
+            { type: 'text', text: 'The answer is 6' },
+          ],
+        },
+        { role: 'user', content: [{ type: 'text', text: 'Why?' }] },
+      ],
+    });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.input).toEqual([
+      { role: 'user', content: [{ type: 'input_text', text: 'Solve it' }] },
+      {
+        type: 'reasoning',
+        id: 'rs-1',
+        encrypted_content: 'encrypted-1',
+        summary: [
+          { type: 'summary_text', text: 'First step' },
+          { type: 'summary_text', text: 'Second step' },
+        ],
+      },
+      {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'output_text', text: 'The answer is 6' }],
+      },
+      { role: 'user', content: [{ type: 'input_text', text: 'Why?' }] },
+    ]);
+  });
+
+  it('should use encrypted content from later summary parts of streamed reasoning', () => {
+    const result = convertToNordlysResponseInput({
+      prompt: [
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'reasoning',
+              text: 'First step',
+              providerOptions: {
+                nordlys: { itemId: 'rs-1', reasoningEncryptedContent: null },
+              },
+            },
+            {
+              type: 'reasoning',
+              text: 'Second step',
+              providerOptions: {
+                nordlys: { itemId: 'rs-1', reasoningEncryptedContent: 'ENC' },
+              },
+            },
+          ],
+        },
+        { role: 'user', content: [{ type: 'text', text: 'Continue' }] },
+      ],
+    });
+
+    expect(Array.isArray(result.input) && result.input[0]).toEqual({
+      type: 'reasoning',
+      id: 'rs-1',
+      encrypted_content: 'ENC',
+      summary: [
+        { type: 'summary_text', text: 'First step' },
+        { type: 'summary_text', text: 'Second step' },
+      ],
+    });
+  });
+
+  it('should send reasoning items without encrypted content and with empty summaries', () => {
+    const result = convertToNordlysResponseInput({
+      prompt: [
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'reasoning',
+              text: '',
+              providerOptions: {
+                nordlys: { itemId: 'rs-1', reasoningEncryptedContent: null },
+              },
+            },
+          ],
+        },
+        { role: 'user', content: [{ type: 'text', text: 'Continue' }] },
+      ],
+    });
+
+    expect(Array.isArray(result.input) && result.input[0]).toEqual({
+      type: 'reasoning',
+      id: 'rs-1',
+      summary: [],
+    });
+  });
+
+  it('should warn about assistant reasoning without Nordlys metadata', () => {
+    const result = convertToNordlysResponseInput({
+      prompt: [
+        {
+          role: 'assistant',
+          content: [{ type: 'reasoning', text: 'Thinking' }],
+        },
+        { role: 'user', content: [{ type: 'text', text: 'Continue' }] },
+      ],
+    });
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.input).toEqual([
+      { role: 'user', content: [{ type: 'input_text', text: 'Continue' }] },
+    ]);
+  });
+
+  it('should only convert messages after the last assistant turn when chaining', () => {
+    const result = convertToNordlysResponseInput({
+      prompt: [
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: [{ type: 'text', text: 'Weather?' }] },
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'call-1',
+              toolName: 'getWeather',
+              input: { city: 'Oslo' },
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call-1',
+              toolName: 'getWeather',
+              output: { type: 'text', value: 'Sunny' },
+            },
+          ],
+        },
+      ],
+      previousResponseId: 'resp-1',
+    });
+
+    expect(result.instructions).toBe('You are helpful');
+    expect(result.input).toEqual([
+      { type: 'function_call_output', call_id: 'call-1', output: 'Sunny' },
+    ]);
+  });
+
+  it('should send a single user text as string input when chaining', () => {
+    const result = convertToNordlysResponseInput({
+      prompt: [
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'Hello!' }] },
+        { role: 'user', content: [{ type: 'text', text: 'Tell me more' }] },
+      ],
+      previousResponseId: 'resp-1',
+    });
+
+    expect(result.input).toBe('Tell me more');
   });
 
   it('should throw error when there is no input', () => {
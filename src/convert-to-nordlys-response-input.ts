@@ -9,6 +9,8 @@ import { convertToBase64 } from '@ai-sdk/provider-utils';
 import type {
   NordlysResponseInputContentUnion,
   NordlysResponseInputItemUnion,
+  NordlysResponseInputReasoning,
+  NordlysResponseOutputText,
 } from './nordlys-responses-types';
 
 // Constants
@@ -98,6 +100,29 @@ function buildInstructions(
   }));
 }
 
+/**
+ * Selects the messages that are not yet part of a previous response:
+ * all system messages and every message after the last assistant turn.
+ *
+ * @param prompt - The full AI SDK LanguageModelV3Prompt
+ * @returns The prompt messages that need to be sent when chaining responses
+ */
+function selectMessagesAfterLastAssistant(
+  prompt: LanguageModelV3Prompt
+): LanguageModelV3Prompt {
+  let lastAssistantIndex = -1;
+  for (let index = prompt.length - 1; index >= 0; index--) {
+    if (prompt[index].role === 'assistant') {
+      lastAssistantIndex = index;
+      break;
+    }
+  }
+
+  return prompt.filter(
+    (message, index) => message.role === 'system' || index > lastAssistantIndex
+  );
+}
+
 /**
  * Converts AI SDK LanguageModelV3Prompt to Nordlys Responses API input format.
  *
@@ -108,11 +133,21 @@ function buildInstructions(
  * - Images support both `image_url` and `file_id` (mutually exclusive)
  * - Audio files are converted to separate input items
  * - PDF files are converted to file input content
- * - Assistant messages are converted to user messages with warnings
+ * - Assistant text is converted to assistant message items with `output_text` content
+ * - Assistant tool calls are converted to function call items, in order with the text
+ * - Provider-executed tool calls (web search, file search, image generation) are
+ *   sent as item references when responses are stored, and omitted otherwise
+ * - Assistant reasoning with Nordlys item metadata is converted to reasoning items
  * - Tool results are converted to function call outputs
  *
+ * When chaining from a previous response, only the messages after the last
+ * assistant turn are sent, since the previous response already holds the
+ * earlier conversation. System messages are always sent as instructions.
+ *
  * @param options - Configuration options
  * @param options.prompt - The AI SDK LanguageModelV3Prompt to convert
+ * @param options.previousResponseId - The id of the response this request continues from
+ * @param options.store - Whether responses are stored, so that their items can be referenced
  * @returns An object containing:
  *   - `input`: The converted input (string for simple text prompts, array for complex prompts)
  *   - `instructions`: Optional instructions from system messages (string or array)
@@ -130,14 +165,22 @@ function buildInstructions(
  * ```
  */
 export function convertToNordlysResponseInput({
-  prompt,
+  prompt: fullPrompt,
+  previousResponseId,
+  store = true,
 }: {
   prompt: LanguageModelV3Prompt;
+  previousResponseId?: string;
+  store?: boolean;
 }): {
   input: string | NordlysResponseInputItemUnion[];
   instructions?: string | NordlysResponseInputItemUnion[];
   warnings: SharedV3Warning[];
 } {
+  const prompt = previousResponseId
+    ? selectMessagesAfterLastAssistant(fullPrompt)
+    : fullPrompt;
+
   const warnings: SharedV3Warning[] = [];
   const inputItems: NordlysResponseInputItemUnion[] = [];
   const systemMessages: string[] = [];
@@ -285,18 +328,49 @@ export function convertToNordlysResponseInput({
       }
       case 'assistant': {
         // Convert assistant message for multi-turn conversations
-        // Note: Responses API doesn't support assistant role in input
-        // We'll convert assistant text to user message with context
-        // Tool-calls are extracted and added as function_call items
-        const textParts: string[] = [];
+        // Consecutive text parts are grouped into an assistant message item and
+        // tool-calls are added as function_call items, preserving the part order
+        let assistantText: NordlysResponseOutputText[] = [];
+        // Reasoning items by item id, so that multiple summary parts of the
+        // same reasoning item are sent back as a single item
+        const reasoningItems: Record<string, NordlysResponseInputReasoning> =
+          {};
+
+        const flushAssistantText = () => {
+          if (assistantText.length > 0) {
+            inputItems.push({
+              type: 'message',
+              role: 'assistant',
+              content: assistantText,
+            });
+            assistantText = [];
+          }
+        };
 
         for (const part of content) {
           switch (part.type) {
             case 'text': {
-              textParts.push(part.text);
+              if (part.text) {
+                assistantText.push({ type: 'output_text', text: part.text });
+              }
               break;
             }
             case 'tool-call': {
+              flushAssistantText();
+
+              // Provider-executed tools are not function calls: the stored
+              // item (call and result) is referenced by id, and without
+              // stored responses there is nothing to reference.
+              if (part.providerExecuted) {
+                if (store) {
+                  inputItems.push({
+                    type: 'item_reference',
+                    id: part.toolCallId,
+                  });
+                }
+                break;
+              }
+
               // Extract tool-calls and add as function_call items
               // This ensures function_call_output items have corresponding function_call items
               inputItems.push({
@@ -310,33 +384,74 @@ export function convertToNordlysResponseInput({
               });
               break;
             }
-            case 'reasoning':
+            case 'reasoning': {
+              const nordlysMetadata = part.providerOptions?.nordlys;
+              const itemId = nordlysMetadata?.itemId;
+
+              if (typeof itemId !== 'string') {
+                warnings.push({
+                  type: 'other',
+                  message:
+                    'Assistant message contains reasoning without Nordlys item metadata which is not supported in Responses API input',
+                });
+                break;
+              }
+
+              const encryptedContent =
+                nordlysMetadata?.reasoningEncryptedContent;
+
+              const existingItem = reasoningItems[itemId];
+              if (existingItem) {
+                if (part.text) {
+                  existingItem.summary.push({
+                    type: 'summary_text',
+                    text: part.text,
+                  });
+                }
+                // streamed reasoning carries the encrypted content on its last summary part
+                if (
+                  existingItem.encrypted_content == null &&
+                  typeof encryptedContent === 'string'
+                ) {
+                  existingItem.encrypted_content = encryptedContent;
+                }
+                break;
+              }
+
+              flushAssistantText();
+              const reasoningItem: NordlysResponseInputReasoning = {
+                type: 'reasoning',
+                id: itemId,
+                summary: part.text
+                  ? [{ type: 'summary_text', text: part.text }]
+                  : [],
+                ...(typeof encryptedContent === 'string' && {
+                  encrypted_content: encryptedContent,
+                }),
+              };
+
+              reasoningItems[itemId] = reasoningItem;
+              inputItems.push(reasoningItem);
+              break;
+            }
+            case 'tool-result': {
+              // Results of provider-executed tools are part of the referenced
+              // tool call item and are not sent separately
+              break;
+            }
             case 'file': {
-              // These are not supported in input for assistant messages
+              // Files are not supported in input for assistant messages
               warnings.push({
                 type: 'other',
-                message: `Assistant message contains ${part.type} which is not supported in Responses API input`,
+                message:
+                  'Assistant message contains file which is not supported in Responses API input',
               });
               break;
             }
           }
         }
 
-        const text = textParts.join('');
-
-        if (text) {
-          // Convert assistant message to user message (multi-turn context)
-          // This is a limitation - Responses API doesn't have assistant role in input
-          warnings.push({
-            type: 'other',
-            message:
-              'Assistant messages in multi-turn conversations are converted to user messages',
-          });
-          inputItems.push({
-            role: 'user',
-            content: [{ type: 'input_text', text }],
-          });
-        }
+        flushAssistantText();
         break;
       }
       case 'tool': {
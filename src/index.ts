@@ -1,7 +1,48 @@
-export type { NordlysChatSettings } from './nordlys-chat-options';
 export type {
+  NordlysChatSettings,
+  NordlysRoutingPreferences,
+} from './nordlys-chat-options';
+export type {
+  NordlysEmbeddingProviderOptions,
+  NordlysEmbeddingSettings,
+} from './nordlys-embedding-options';
+export type { NordlysAPIErrorOptions } from './nordlys-error';
+export {
+  NordlysAPIError,
+  NordlysAuthenticationError,
+  NordlysContentFilterError,
+  NordlysContextLengthExceededError,
+  NordlysInvalidRequestError,
+  NordlysPermissionError,
+  NordlysRateLimitError,
+  NordlysResponseCancelledError,
+  NordlysResponseTimeoutError,
+  NordlysRoutingError,
+  NordlysServerOverloadedError,
+} from './nordlys-error';
+export type { NordlysFileSearchArgs } from './nordlys-file-search-tool';
+export type { NordlysImageGenerationArgs } from './nordlys-image-generation-tool';
+export type {
+  NordlysImageProviderOptions,
+  NordlysImageSettings,
+} from './nordlys-image-options';
+export type {
+  NordlysChatModelId,
+  NordlysModelCapabilities,
+  NordlysModelInfo,
+  NordlysModelModality,
+} from './nordlys-models';
+export { getModelCapabilities } from './nordlys-models';
+export type {
+  NordlysEmbeddingModelId,
+  NordlysImageModelId,
   NordlysProvider,
   NordlysProviderSettings,
+  NordlysSpeechModelId,
+  NordlysTranscriptionModelId,
 } from './nordlys-provider';
 export { createNordlys, nordlys } from './nordlys-provider';
+export type { NordlysRetrySettings } from './nordlys-retry';
+export type { NordlysTranscriptionProviderOptions } from './nordlys-transcription-options';
 export type * from './nordlys-types';
+export type { NordlysWebSearchArgs } from './nordlys-web-search-tool';
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { mapNordlysAnnotation } from './map-nordlys-annotation';
+import type { NordlysResponseOutputTextAnnotation } from './nordlys-responses-types';
+
+describe('mapNordlysAnnotation', () => {
+  const generateId = () => 'source-1';
+
+  it('should map url_citation to a url source', () => {
+    expect(
+      mapNordlysAnnotation({
+        annotation: {
+          type: 'url_citation',
+          url: 'https://example.com/article',
+          title: 'Example article',
+          start_index: 0,
+          end_index: 10,
+        },
+        generateId,
+      })
+    ).toEqual({
+      type: 'source',
+      sourceType: 'url',
+      id: 'source-1',
+      url: 'https://example.com/article',
+      title: 'Example article',
+    });
+  });
+
+  it('should omit a missing title', () => {
+    expect(
+      mapNordlysAnnotation({
+        annotation: { type: 'url_citation', url: 'https://example.com' },
+        generateId,
+      })
+    ).toEqual({
+      type: 'source',
+      sourceType: 'url',
+      id: 'source-1',
+      url: 'https://example.com',
+    });
+  });
+
+  it('should map file_citation to a document source', () => {
+    expect(
+      mapNordlysAnnotation({
+        annotation: {
+          type: 'file_citation',
+          file_id: 'file-123',
+          filename: 'handbook.pdf',
+          index: 42,
+        },
+        generateId,
+      })
+    ).toEqual({
+      type: 'source',
+      sourceType: 'document',
+      id: 'source-1',
+      mediaType: 'text/plain',
+      title: 'handbook.pdf',
+      filename: 'handbook.pdf',
+      providerMetadata: { nordlys: { fileId: 'file-123' } },
+    });
+  });
+
+  it('should use the file id as title when the filename is missing', () => {
+    expect(
+      mapNordlysAnnotation({
+        annotation: { type: 'file_citation', file_id: 'file-123' },
+        generateId,
+      })
+    ).toMatchObject({ sourceType: 'document', title: 'file-123' });
+  });
+
+  it('should return undefined for unknown annotation types', () => {
+    expect(
+      mapNordlysAnnotation({
+        annotation: {
+          type: 'container_file_citation',
+        } as unknown as NordlysResponseOutputTextAnnotation,
+        generateId,
+      })
+    ).toBeUndefined();
+  });
+});
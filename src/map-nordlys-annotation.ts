@@ -0,0 +1,38 @@
+import type { LanguageModelV3Source } from '@ai-sdk/provider';
+import type { IdGenerator } from '@ai-sdk/provider-utils';
+import type { NordlysResponseOutputTextAnnotation } from './nordlys-responses-types';
+
+/**
+ * Maps an output text annotation to an AI SDK source part.
+ * Returns undefined for annotation types that do not reference a source.
+ */
+export function mapNordlysAnnotation({
+  annotation,
+  generateId,
+}: {
+  annotation: NordlysResponseOutputTextAnnotation;
+  generateId: IdGenerator;
+}): LanguageModelV3Source | undefined {
+  switch (annotation.type) {
+    case 'url_citation':
+      return {
+        type: 'source',
+        sourceType: 'url',
+        id: generateId(),
+        url: annotation.url,
+        ...(annotation.title != null && { title: annotation.title }),
+      };
+    case 'file_citation':
+      return {
+        type: 'source',
+        sourceType: 'document',
+        id: generateId(),
+        mediaType: 'text/plain',
+        title: annotation.filename ?? annotation.file_id,
+        ...(annotation.filename != null && { filename: annotation.filename }),
+        providerMetadata: { nordlys: { fileId: annotation.file_id } },
+      };
+    default:
+      return undefined;
+  }
+}
@@ -14,6 +14,16 @@ describe('mapNordlysFinishReason', () => {
     ).toBe('tool-calls');
   });
 
+  it('should map an incomplete status without reason to other', () => {
+    expect(
+      mapNordlysFinishReason({
+        finishReason: undefined,
+        status: 'incomplete',
+        hasFunctionCall: true,
+      })
+    ).toBe('other');
+  });
+
   it('should map max_output_tokens to length', () => {
     expect(
       mapNordlysFinishReason({
@@ -2,15 +2,21 @@ import type { LanguageModelV3FinishReason } from '@ai-sdk/provider';
 
 export function mapNordlysFinishReason({
   finishReason,
+  status,
   hasFunctionCall,
 }: {
   finishReason: string | null | undefined;
+  // response status; an incomplete response without a reason is not a clean stop
+  status?: string | null;
   // flag that checks if there have been client-side tool calls (not executed by provider)
   hasFunctionCall: boolean;
 }): LanguageModelV3FinishReason['unified'] {
   switch (finishReason) {
     case undefined:
     case null:
+      if (status === 'incomplete') {
+        return 'other';
+      }
       return hasFunctionCall ? 'tool-calls' : 'stop';
     case 'max_output_tokens':
       return 'length';
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { mapNordlysLogprobs } from './map-nordlys-logprobs';
+
+describe('mapNordlysLogprobs', () => {
+  it('should map tokens with their top alternatives', () => {
+    expect(
+      mapNordlysLogprobs([
+        {
+          token: 'Yes',
+          logprob: -0.01,
+          bytes: [89, 101, 115],
+          top_logprobs: [
+            { token: 'Yes', logprob: -0.01, bytes: [89, 101, 115] },
+            { token: 'No', logprob: -4.6, bytes: [78, 111] },
+          ],
+        },
+      ])
+    ).toEqual([
+      {
+        token: 'Yes',
+        logprob: -0.01,
+        bytes: [89, 101, 115],
+        topLogprobs: [
+          { token: 'Yes', logprob: -0.01, bytes: [89, 101, 115] },
+          { token: 'No', logprob: -4.6, bytes: [78, 111] },
+        ],
+      },
+    ]);
+  });
+
+  it('should omit missing bytes and default to no alternatives', () => {
+    expect(
+      mapNordlysLogprobs([{ token: 'Hi', logprob: -0.2, bytes: null }])
+    ).toEqual([{ token: 'Hi', logprob: -0.2, topLogprobs: [] }]);
+  });
+});
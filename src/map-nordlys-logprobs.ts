@@ -0,0 +1,21 @@
+import type { JSONObject } from '@ai-sdk/provider';
+import type { NordlysResponseOutputTextLogprob } from './nordlys-responses-types';
+
+/**
+ * Maps output text logprobs to the `providerMetadata.nordlys.logprobs` format:
+ * one entry per token with its log probability, UTF-8 bytes and top alternatives.
+ */
+export function mapNordlysLogprobs(
+  logprobs: NordlysResponseOutputTextLogprob[]
+): JSONObject[] {
+  return logprobs.map(({ token, logprob, bytes, top_logprobs }) => ({
+    token,
+    logprob,
+    ...(bytes != null && { bytes }),
+    topLogprobs: (top_logprobs ?? []).map((alternative) => ({
+      token: alternative.token,
+      logprob: alternative.logprob,
+      ...(alternative.bytes != null && { bytes: alternative.bytes }),
+    })),
+  }));
+}
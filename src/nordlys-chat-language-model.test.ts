@@ -1,5 +1,74 @@
+import type {
+  JSONValue,
+  LanguageModelV3Prompt,
+  SharedV3ProviderOptions,
+} from '@ai-sdk/provider';
+import { convertReadableStreamToArray } from '@ai-sdk/provider-utils/test';
 import { describe, expect, it, vi } from 'vitest';
 import { NordlysChatLanguageModel } from './nordlys-chat-language-model';
+import {
+  type NordlysChatSettings,
+  nordlysProviderOptions,
+} from './nordlys-chat-options';
+import {
+  NordlysAuthenticationError,
+  NordlysContextLengthExceededError,
+  NordlysInvalidRequestError,
+  NordlysRateLimitError,
+  NordlysResponseCancelledError,
+  NordlysResponseTimeoutError,
+  NordlysRoutingError,
+  NordlysServerOverloadedError,
+} from './nordlys-error';
+import { imageGenerationOutputSchema } from './nordlys-image-generation-tool';
+
+const createModel = (
+  mockFetch?: typeof fetch,
+  {
+    modelId = 'test-model',
+    settings,
+    ...config
+  }: {
+    modelId?: string;
+    settings?: NordlysChatSettings;
+  } & Partial<ConstructorParameters<typeof NordlysChatLanguageModel>[2]> = {}
+) =>
+  new NordlysChatLanguageModel(modelId, settings, {
+    provider: 'nordlys.chat',
+    baseURL: 'https://example.com',
+    headers: () => ({}),
+    fetch: mockFetch,
+    ...config,
+  });
+
+const prompt: LanguageModelV3Prompt = [
+  { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
+];
+
+const createStreamResponse = (events: unknown[]) =>
+  new Response(
+    events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(''),
+    { headers: { 'content-type': 'text/event-stream' } }
+  );
+
+const createStreamFetch = (events: unknown[]) =>
+  vi.fn<typeof fetch>().mockResolvedValue(createStreamResponse(events));
+
+const createJsonFetch = (body: unknown) =>
+  vi.fn<typeof fetch>().mockResolvedValue(
+    new Response(JSON.stringify(body), {
+      headers: { 'content-type': 'application/json' },
+    })
+  );
+
+const completedResponse = {
+  id: 'test-id',
+  model: 'test-model',
+  created_at: 1700000000,
+  status: 'completed',
+  output: [],
+  usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+};
 
 describe('nordlysChatLanguageModel', () => {
   it('should construct with modelId and config', () => {
@@ -188,55 +257,37 @@ describe('nordlysChatLanguageModel', () => {
     });
   });
 
-  describe('reasoning configuration', () => {
-    const mockResponse = {
-      id: 'test-id',
-      model: 'test-model',
-      created_at: Date.now() / 1000,
-      status: 'completed' as const,
-      output: [
-        {
-          type: 'message' as const,
-          id: 'msg-1',
-          role: 'assistant' as const,
-          status: 'completed' as const,
-          content: [
-            {
-              type: 'output_text' as const,
-              text: 'Hello world',
-            },
-          ],
-        },
-      ],
-      usage: {
-        input_tokens: 10,
-        output_tokens: 20,
-        total_tokens: 30,
-      },
-      provider: 'test-provider',
-    };
+  it('should support image URLs for known models with vision', () => {
+    const model = createModel(undefined, { modelId: 'nordlys/hypernova' });
 
-    const createMockFetch = () =>
-      vi.fn().mockResolvedValue({
-        ok: true,
-        status: 200,
-        statusText: 'OK',
-        headers: new Headers(),
-        json: () => Promise.resolve(mockResponse),
-        text: () => Promise.resolve(JSON.stringify(mockResponse)),
-        arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
-        blob: () => Promise.resolve(new Blob()),
-        formData: () => Promise.resolve(new FormData()),
-        body: null,
-        bodyUsed: false,
-        url: 'https://example.com',
-        redirected: false,
-        type: 'basic' as ResponseType,
-        clone: () => ({}) as Response,
-      });
+    expect(model.supportedUrls).toEqual({
+      'application/pdf': [/^https:\/\/.*$/],
+      'image/*': [/^https?:\/\/.*$/],
+    });
+  });
+
+  it('should not warn about features of models without known capabilities', async () => {
+    const mockFetch = createJsonFetch({
+      id: 'resp-1',
+      model: 'custom/model',
+      created_at: 1700000000,
+      status: 'completed',
+      output: [],
+      usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+    });
+    const model = createModel(mockFetch, { modelId: 'custom/model' });
+
+    const result = await model.doGenerate({
+      prompt,
+      providerOptions: { nordlys: { reasoning: { effort: 'high' } } },
+    });
 
+    expect(result.warnings).toEqual([]);
+  });
+
+  describe('reasoning configuration', () => {
     it('should include reasoning.effort when set at model creation time', async () => {
-      const mockFetch = createMockFetch();
+      const mockFetch = createJsonFetch(completedResponse);
 
       const model = new NordlysChatLanguageModel(
         'test-model',
@@ -256,7 +307,7 @@ describe('nordlysChatLanguageModel', () => {
       );
 
       await model.doGenerate({
-        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+        prompt,
       });
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -269,7 +320,7 @@ describe('nordlysChatLanguageModel', () => {
     });
 
     it('should include reasoning.summary when set', async () => {
-      const mockFetch = createMockFetch();
+      const mockFetch = createJsonFetch(completedResponse);
 
       const model = new NordlysChatLanguageModel(
         'test-model',
@@ -289,7 +340,7 @@ describe('nordlysChatLanguageModel', () => {
       );
 
       await model.doGenerate({
-        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+        prompt,
       });
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -300,7 +351,7 @@ describe('nordlysChatLanguageModel', () => {
     });
 
     it('should include both reasoning.effort and reasoning.summary when set', async () => {
-      const mockFetch = createMockFetch();
+      const mockFetch = createJsonFetch(completedResponse);
 
       const model = new NordlysChatLanguageModel(
         'test-model',
@@ -321,7 +372,7 @@ describe('nordlysChatLanguageModel', () => {
       );
 
       await model.doGenerate({
-        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+        prompt,
       });
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -335,7 +386,7 @@ describe('nordlysChatLanguageModel', () => {
     });
 
     it('should not include reasoning when not provided', async () => {
-      const mockFetch = createMockFetch();
+      const mockFetch = createJsonFetch(completedResponse);
 
       const model = new NordlysChatLanguageModel('test-model', undefined, {
         provider: 'nordlys.chat',
@@ -345,7 +396,7 @@ describe('nordlysChatLanguageModel', () => {
       });
 
       await model.doGenerate({
-        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+        prompt,
       });
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -357,7 +408,7 @@ describe('nordlysChatLanguageModel', () => {
     });
 
     it('should convert system messages to instructions', async () => {
-      const mockFetch = createMockFetch();
+      const mockFetch = createJsonFetch(completedResponse);
 
       const model = new NordlysChatLanguageModel('test-model', undefined, {
         provider: 'nordlys.chat',
@@ -383,6 +434,2776 @@ describe('nordlysChatLanguageModel', () => {
     });
   });
 
+  describe('model settings', () => {
+    it('should apply model-level sampling settings as defaults', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      await createModel(mockFetch, {
+        settings: {
+          temperature: 0.9,
+          maxOutputTokens: 2000,
+          topP: 0.95,
+        },
+      }).doGenerate({
+        prompt,
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.temperature).toBe(0.9);
+      expect(requestBody.max_output_tokens).toBe(2000);
+      expect(requestBody.top_p).toBe(0.95);
+    });
+
+    it('should let call-level values take precedence over model-level settings', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      await createModel(mockFetch, {
+        settings: {
+          temperature: 0.9,
+          maxOutputTokens: 2000,
+          topP: 0.95,
+        },
+      }).doGenerate({
+        prompt,
+        temperature: 0.1,
+        maxOutputTokens: 100,
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.temperature).toBe(0.1);
+      expect(requestBody.max_output_tokens).toBe(100);
+      expect(requestBody.top_p).toBe(0.95);
+    });
+
+    it('should keep a call-level value of 0 instead of the model-level default', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      await createModel(mockFetch, {
+        settings: { temperature: 0.9 },
+      }).doGenerate({
+        prompt,
+        temperature: 0,
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.temperature).toBe(0);
+    });
+
+    it('should forward stop sequences, seed and penalties', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      const result = await createModel(mockFetch, {
+        settings: {
+          stopSequences: ['END'],
+          presencePenalty: 0.5,
+        },
+      }).doGenerate({
+        prompt,
+        seed: 42,
+        frequencyPenalty: 0.3,
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.stop).toEqual(['END']);
+      expect(requestBody.seed).toBe(42);
+      expect(requestBody.presence_penalty).toBe(0.5);
+      expect(requestBody.frequency_penalty).toBe(0.3);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should warn that topK is unsupported', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      const result = await createModel(mockFetch, {
+        settings: { topK: 40 },
+      }).doGenerate({
+        prompt,
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.top_k).toBeUndefined();
+      expect(result.warnings).toEqual([
+        { type: 'unsupported', feature: 'topK' },
+      ]);
+    });
+
+    it('should merge model-level and call-level provider options', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      await createModel(mockFetch, {
+        settings: {
+          providerOptions: {
+            user: 'model-user',
+            service_tier: 'flex',
+            reasoning: { effort: 'low', summary: 'auto' },
+          },
+        },
+      }).doGenerate({
+        prompt,
+        providerOptions: {
+          nordlys: { user: 'call-user', reasoning: { effort: 'high' } },
+        },
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.user).toBe('call-user');
+      expect(requestBody.service_tier).toBe('flex');
+      expect(requestBody.reasoning).toEqual({
+        effort: 'high',
+        summary: 'auto',
+      });
+    });
+
+    it('should ignore provider options of other providers', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      await createModel(mockFetch).doGenerate({
+        prompt,
+        providerOptions: { openai: { user: 'openai-user' } },
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.user).toBeUndefined();
+    });
+  });
+
+  describe('response format', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: { value: { type: 'number' as const } },
+      required: ['value'],
+      additionalProperties: false,
+    };
+
+    it('should map json response format with schema to text.format json_schema', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      const result = await createModel(mockFetch).doGenerate({
+        prompt,
+        responseFormat: {
+          type: 'json',
+          schema,
+          name: 'value_response',
+          description: 'A numeric value',
+        },
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.text).toEqual({
+        format: {
+          type: 'json_schema',
+          name: 'value_response',
+          description: 'A numeric value',
+          schema,
+          strict: true,
+        },
+      });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should default the schema name and honor strict_json_schema', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      await createModel(mockFetch).doGenerate({
+        prompt,
+        responseFormat: { type: 'json', schema },
+        providerOptions: { nordlys: { strict_json_schema: false } },
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.text).toEqual({
+        format: {
+          type: 'json_schema',
+          name: 'response',
+          schema,
+          strict: false,
+        },
+      });
+    });
+
+    it('should map json response format without schema to json_object', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      const result = await createModel(mockFetch).doGenerate({
+        prompt,
+        responseFormat: { type: 'json' },
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.text).toEqual({ format: { type: 'json_object' } });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should warn when schema-only settings are used without a schema', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      const result = await createModel(mockFetch).doGenerate({
+        prompt,
+        responseFormat: { type: 'json', name: 'value_response' },
+        providerOptions: { nordlys: { strict_json_schema: true } },
+      });
+
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: 'unsupported',
+          feature: 'strict_json_schema',
+        }),
+        expect.objectContaining({
+          type: 'unsupported',
+          feature: 'responseFormat',
+        }),
+      ]);
+    });
+
+    it('should not send text config for text response format', async () => {
+      const mockFetch = createJsonFetch(completedResponse);
+
+      await createModel(mockFetch).doGenerate({
+        prompt,
+        responseFormat: { type: 'text' },
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+
+      expect(requestBody.text).toBeUndefined();
+    });
+  });
+
+  describe('provider options', () => {
+    const generateWithOptions = async (
+      nordlysOptions: SharedV3ProviderOptions[string],
+      callOptions: Partial<
+        Parameters<NordlysChatLanguageModel['doGenerate']>[0]
+      > = {}
+    ) => {
+      const mockFetch = createJsonFetch(completedResponse);
+      const model = createModel(mockFetch);
+
+      const result = await model.doGenerate({
+        prompt,
+        ...callOptions,
+        providerOptions: {
+          nordlys: nordlysOptions,
+        },
+      });
+
+      return {
+        result,
+        requestBody: JSON.parse(mockFetch.mock.calls[0][1]?.body as string),
+      };
+    };
+
+    // Each provider option with a sample value and the request body it must produce
+    const wireMatrix: Array<[string, JSONValue, Record<string, unknown>]> = [
+      ['model', 'nordlys/other', { model: 'nordlys/other' }],
+      ['logit_bias', { '50256': -100 }, { logit_bias: { '50256': -100 } }],
+      ['user', 'user-123', { user: 'user-123' }],
+      [
+        'audio',
+        { format: 'wav', voice: 'alloy' },
+        { audio: { format: 'wav', voice: 'alloy' } },
+      ],
+      ['logprobs', true, { include: ['message.output_text.logprobs'] }],
+      ['max_completion_tokens', 512, { max_output_tokens: 512 }],
+      ['metadata', { team: 'search' }, { metadata: { team: 'search' } }],
+      ['modalities', ['text', 'audio'], { modalities: ['text', 'audio'] }],
+      ['parallel_tool_calls', false, { parallel_tool_calls: false }],
+      [
+        'prediction',
+        { type: 'content', content: { OfString: 'draft' } },
+        { prediction: { type: 'content', content: 'draft' } },
+      ],
+      [
+        'reasoning',
+        { effort: 'medium', summary: 'concise' },
+        { reasoning: { effort: 'medium', summary: 'concise' } },
+      ],
+      [
+        'response_format',
+        { OfJSONObject: { type: 'json_object' } },
+        { text: { format: { type: 'json_object' } } },
+      ],
+      ['seed', 7, { seed: 7 }],
+      ['service_tier', 'flex', { service_tier: 'flex' }],
+      ['store', false, { store: false }],
+      ['top_logprobs', 3, { top_logprobs: 3 }],
+      [
+        'web_search_options',
+        {
+          search_context_size: 'low',
+          user_location: { type: 'approximate', approximate: { city: 'Oslo' } },
+        },
+        {
+          tools: [
+            {
+              type: 'web_search',
+              search_context_size: 'low',
+              user_location: { type: 'approximate', city: 'Oslo' },
+            },
+          ],
+        },
+      ],
+      ['max_tool_calls', 4, { max_tool_calls: 4 }],
+      [
+        'strict_json_schema',
+        false,
+        {
+          text: {
+            format: {
+              type: 'json_schema',
+              name: 'schema',
+              schema: { type: 'object' },
+              strict: false,
+            },
+          },
+        },
+      ],
+      ['text_verbosity', 'low', { text: { verbosity: 'low' } }],
+      [
+        'include',
+        ['file_search_call.results'],
+        { include: ['file_search_call.results'] },
+      ],
+      ['truncation', 'auto', { truncation: 'auto' }],
+      [
+        'previous_response_id',
+        'resp-previous',
+        { previous_response_id: 'resp-previous' },
+      ],
+      ['background', true, { background: true }],
+      [
+        'routing',
+        { optimize_for: 'cost', max_price_per_million_tokens: 2 },
+        { routing: { optimize_for: 'cost', max_price_per_million_tokens: 2 } },
+      ],
+    ];
+
+    // Options that cannot be expressed in a Responses API request
+    const unsupportedOptions: Array<[string, JSONValue]> = [
+      ['n', 2],
+      ['stream', true],
+    ];
+
+    // Options that configure the client and are not sent to the API
+    const clientOptions: Array<[string, JSONValue]> = [
+      ['background_poll_interval_ms', 500],
+      ['background_timeout_ms', 60_000],
+      ['stream_max_reconnects', 1],
+    ];
+
+    it('should cover every provider option schema field', () => {
+      const covered = [
+        ...wireMatrix.map(([name]) => name),
+        ...unsupportedOptions.map(([name]) => name),
+        ...clientOptions.map(([name]) => name),
+      ];
+
+      expect(covered.sort()).toEqual(
+        Object.keys(nordlysProviderOptions.shape).sort()
+      );
+    });
+
+    it.each(
+      wireMatrix
+    )('should forward %s to the request body', async (name, value, expected) => {
+      const { requestBody } = await generateWithOptions(
+        {
+          [name]: value,
+          ...(name === 'audio' && { modalities: ['text', 'audio'] }),
+          ...(name === 'strict_json_schema' && {
+            response_format: {
+              OfJSONSchema: {
+                type: 'json_schema',
+                json_schema: { name: 'schema', schema: { type: 'object' } },
+              },
+            },
+          }),
+        },
+        {}
+      );
+
+      expect(requestBody).toMatchObject(expected);
+    });
+
+    it.each(
+      unsupportedOptions
+    )('should warn that %s is unsupported', async (name, value) => {
+      const { result, requestBody } = await generateWithOptions({
+        [name]: value,
+      });
+
+      expect(requestBody[name]).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ type: 'unsupported', feature: name }),
+      ]);
+    });
+
+    it.each(
+      clientOptions
+    )('should not send %s to the API', async (name, value) => {
+      const { result, requestBody } = await generateWithOptions({
+        [name]: value,
+      });
+
+      expect(requestBody[name]).toBeUndefined();
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should send prediction content parts as an array', async () => {
+      const { requestBody } = await generateWithOptions({
+        prediction: {
+          type: 'content',
+          content: {
+            OfArrayOfContentParts: [{ type: 'text', text: 'draft' }],
+          },
+        },
+      });
+
+      expect(requestBody.prediction).toEqual({
+        type: 'content',
+        content: [{ type: 'text', text: 'draft' }],
+      });
+    });
+
+    it('should request logprobs with include instead of a logprobs field', async () => {
+      const { requestBody } = await generateWithOptions({ logprobs: true });
+
+      expect(requestBody.logprobs).toBeUndefined();
+    });
+
+    it('should send web_search_options as a web_search tool', async () => {
+      const { requestBody } = await generateWithOptions({
+        web_search_options: { search_context_size: 'high' },
+      });
+
+      expect(requestBody.web_search_options).toBeUndefined();
+      expect(requestBody.tools).toEqual([
+        { type: 'web_search', search_context_size: 'high' },
+      ]);
+    });
+
+    it('should merge web_search_options into the web_search tool of the call', async () => {
+      const { requestBody } = await generateWithOptions(
+        {
+          web_search_options: {
+            search_context_size: 'high',
+            user_location: {
+              type: 'approximate',
+              approximate: { city: 'Oslo', country: 'NO' },
+            },
+          },
+        },
+        {
+          tools: [
+            {
+              type: 'provider',
+              id: 'nordlys.web_search',
+              name: 'web_search',
+              args: { searchContextSize: 'low' },
+            },
+          ],
+        }
+      );
+
+      expect(requestBody.tools).toEqual([
+        {
+          type: 'web_search',
+          search_context_size: 'low',
+          user_location: { type: 'approximate', city: 'Oslo', country: 'NO' },
+        },
+      ]);
+    });
+
+    it('should warn about audio settings without the audio modality', async () => {
+      const { result, requestBody } = await generateWithOptions({
+        audio: { format: 'wav', voice: 'alloy' },
+      });
+
+      expect(requestBody.audio).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ type: 'unsupported', feature: 'audio' }),
+      ]);
+    });
+
+    it('should warn about unsupported output modalities', async () => {
+      const { result, requestBody } = await generateWithOptions({
+        modalities: ['text', 'image'],
+      });
+
+      expect(requestBody.modalities).toEqual(['text']);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: 'unsupported',
+          feature: 'modality: image',
+        }),
+      ]);
+    });
+
+    it('should map the OfJSONSchema response_format to text.format', async () => {
+      const { requestBody } = await generateWithOptions({
+        response_format: {
+          OfJSONSchema: {
+            type: 'json_schema',
+            json_schema: {
+              name: 'person',
+              description: 'A person',
+              schema: { type: 'object' },
+              strict: true,
+            },
+          },
+        },
+        text_verbosity: 'high',
+      });
+
+      expect(requestBody.text).toEqual({
+        format: {
+          type: 'json_schema',
+          name: 'person',
+          description: 'A person',
+          schema: { type: 'object' },
+          strict: true,
+        },
+        verbosity: 'high',
+      });
+      expect(requestBody.response_format).toBeUndefined();
+      expect(requestBody.text_verbosity).toBeUndefined();
+    });
+
+    it('should prefer the call response format over the response_format option', async () => {
+      const { result, requestBody } = await generateWithOptions(
+        { response_format: { OfText: { type: 'text' } } },
+        { responseFormat: { type: 'json' } }
+      );
+
+      expect(requestBody.text).toEqual({ format: { type: 'json_object' } });
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: 'unsupported',
+          feature: 'response_format',
+        }),
+      ]);
+    });
+
+    it('should include reasoning.encrypted_content when store is false', async () => {
+      const { requestBody } = await generateWithOptions({
+        store: false,
+        include: ['file_search_call.results'],
+      });
+
+      expect(requestBody.include).toEqual([
+        'file_search_call.results',
+        'reasoning.encrypted_content',
+      ]);
+    });
+
+    it('should not duplicate reasoning.encrypted_content in include', async () => {
+      const { requestBody } = await generateWithOptions({
+        store: false,
+        include: ['reasoning.encrypted_content'],
+      });
+
+      expect(requestBody.include).toEqual(['reasoning.encrypted_content']);
+    });
+
+    it('should not add include when the response is stored', async () => {
+      const { requestBody } = await generateWithOptions({ store: true });
+
+      expect(requestBody.include).toBeUndefined();
+    });
+
+    it('should emit the encrypted reasoning content of the done item when streaming', async () => {
+      const mockFetch = createStreamFetch([
+        {
+          type: 'response.output_item.added',
+          output_index: 0,
+          item: {
+            type: 'reasoning',
+            id: 'rs-1',
+            summary: [],
+            encrypted_content: null,
+          },
+        },
+        {
+          type: 'response.reasoning_summary_text.delta',
+          item_id: 'rs-1',
+          summary_index: 0,
+          delta: 'Thinking',
+        },
+        {
+          type: 'response.reasoning_summary_part.done',
+          item_id: 'rs-1',
+          summary_index: 0,
+        },
+        {
+          type: 'response.output_item.done',
+          output_index: 0,
+          item: {
+            type: 'reasoning',
+            id: 'rs-1',
+            summary: [{ type: 'summary_text', text: 'Thinking' }],
+            encrypted_content: 'ENC',
+          },
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+          },
+        },
+      ]);
+
+      const { stream } = await createModel(mockFetch).doStream({
+        prompt,
+        providerOptions: { nordlys: { store: false } },
+      });
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.filter((part) => part.type === 'reasoning-end')).toEqual([
+        {
+          type: 'reasoning-end',
+          id: 'rs-1:0',
+          providerMetadata: {
+            nordlys: { itemId: 'rs-1', reasoningEncryptedContent: 'ENC' },
+          },
+        },
+      ]);
+    });
+
+    it('should only send messages after the last assistant turn when chaining', async () => {
+      const { requestBody } = await generateWithOptions(
+        { previous_response_id: 'resp-1' },
+        {
+          prompt: [
+            { role: 'system', content: 'You are helpful' },
+            { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+            { role: 'assistant', content: [{ type: 'text', text: 'Hello!' }] },
+            { role: 'user', content: [{ type: 'text', text: 'How are you?' }] },
+          ],
+        }
+      );
+
+      expect(requestBody.previous_response_id).toBe('resp-1');
+      expect(requestBody.instructions).toBe('You are helpful');
+      expect(requestBody.input).toEqual([
+        {
+          role: 'user',
+          content: [{ type: 'input_text', text: 'How are you?' }],
+        },
+      ]);
+    });
+
+    it('should prefer call-level seed and maxOutputTokens over provider options', async () => {
+      const { requestBody } = await generateWithOptions(
+        { seed: 7, max_completion_tokens: 512 },
+        { seed: 42, maxOutputTokens: 100 }
+      );
+
+      expect(requestBody.seed).toBe(42);
+      expect(requestBody.max_output_tokens).toBe(100);
+    });
+  });
+
+  describe('provider tools', () => {
+    const generateId = () => 'source-id';
+
+    const webSearchTool = {
+      type: 'provider' as const,
+      id: 'nordlys.web_search' as const,
+      name: 'search',
+      args: { searchContextSize: 'medium' },
+    };
+
+    const webSearchCall = {
+      type: 'web_search_call',
+      id: 'ws-1',
+      status: 'completed',
+      action: {
+        type: 'search',
+        query: 'nordlys news',
+        sources: [{ type: 'url', url: 'https://example.com/news' }],
+      },
+    };
+
+    it('should send the web search tool and map results and citations', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          webSearchCall,
+          {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [
+              {
+                type: 'output_text',
+                text: 'Nordlys shipped a release.',
+                annotations: [
+                  {
+                    type: 'url_citation',
+                    url: 'https://example.com/news',
+                    title: 'News',
+                    start_index: 0,
+                    end_index: 25,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+      });
+
+      const result = await createModel(mockFetch, { generateId }).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'News?' }] }],
+        tools: [webSearchTool],
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+      expect(requestBody.tools).toEqual([
+        { type: 'web_search', search_context_size: 'medium' },
+      ]);
+
+      expect(result.content).toEqual([
+        {
+          type: 'tool-call',
+          toolCallId: 'ws-1',
+          toolName: 'search',
+          input: '{}',
+          providerExecuted: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'ws-1',
+          toolName: 'search',
+          result: { status: 'completed', action: webSearchCall.action },
+        },
+        {
+          type: 'text',
+          text: 'Nordlys shipped a release.',
+          providerMetadata: { nordlys: { itemId: 'msg-1' } },
+        },
+        {
+          type: 'source',
+          sourceType: 'url',
+          id: 'source-id',
+          url: 'https://example.com/news',
+          title: 'News',
+        },
+      ]);
+      expect(result.finishReason.unified).toBe('stop');
+    });
+
+    describe('provider-executed tool calls in history', () => {
+      const webSearchResponse = {
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          webSearchCall,
+          {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [{ type: 'output_text', text: 'Nordlys shipped.' }],
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+      };
+
+      type AssistantContentPart = Extract<
+        LanguageModelV3Prompt[number],
+        { role: 'assistant' }
+      >['content'][number];
+
+      // generates a web search turn, then replays it like the AI SDK does in the next step
+      const sendFollowUp = async (
+        nordlysOptions: Record<string, JSONValue>
+      ) => {
+        const mockFetch = vi.fn<typeof fetch>().mockImplementation(
+          async () =>
+            new Response(JSON.stringify(webSearchResponse), {
+              headers: { 'content-type': 'application/json' },
+            })
+        );
+        const model = createModel(mockFetch, { generateId });
+        const providerOptions = { nordlys: nordlysOptions };
+
+        const first = await model.doGenerate({
+          prompt: [
+            { role: 'user', content: [{ type: 'text', text: 'News?' }] },
+          ],
+          tools: [webSearchTool],
+          providerOptions,
+        });
+
+        const assistantContent = first.content.flatMap<AssistantContentPart>(
+          (part) => {
+            switch (part.type) {
+              case 'tool-call':
+                return [
+                  {
+                    type: 'tool-call' as const,
+                    toolCallId: part.toolCallId,
+                    toolName: part.toolName,
+                    input: JSON.parse(part.input),
+                    providerExecuted: part.providerExecuted,
+                  },
+                ];
+              case 'tool-result':
+                return [
+                  {
+                    type: 'tool-result' as const,
+                    toolCallId: part.toolCallId,
+                    toolName: part.toolName,
+                    output: { type: 'json' as const, value: part.result },
+                  },
+                ];
+              case 'text':
+                return [
+                  {
+                    type: 'text' as const,
+                    text: part.text,
+                    providerOptions: part.providerMetadata,
+                  },
+                ];
+              default:
+                return [];
+            }
+          }
+        );
+
+        await model.doGenerate({
+          prompt: [
+            { role: 'user', content: [{ type: 'text', text: 'News?' }] },
+            { role: 'assistant', content: assistantContent },
+            { role: 'user', content: [{ type: 'text', text: 'More?' }] },
+          ],
+          tools: [webSearchTool],
+          providerOptions,
+        });
+
+        return JSON.parse(mockFetch.mock.calls[1][1]?.body as string).input;
+      };
+
+      it('should reference stored provider-executed tool calls by id', async () => {
+        expect(await sendFollowUp({})).toEqual([
+          { role: 'user', content: [{ type: 'input_text', text: 'News?' }] },
+          { type: 'item_reference', id: 'ws-1' },
+          {
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Nordlys shipped.' }],
+          },
+          { role: 'user', content: [{ type: 'input_text', text: 'More?' }] },
+        ]);
+      });
+
+      it('should omit provider-executed tool calls when responses are not stored', async () => {
+        expect(await sendFollowUp({ store: false })).toEqual([
+          { role: 'user', content: [{ type: 'input_text', text: 'News?' }] },
+          {
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Nordlys shipped.' }],
+          },
+          { role: 'user', content: [{ type: 'input_text', text: 'More?' }] },
+        ]);
+      });
+    });
+
+    it('should stream web search calls and citations', async () => {
+      const mockFetch = createStreamFetch([
+        {
+          type: 'response.created',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'in_progress',
+            output: [],
+          },
+        },
+        {
+          type: 'response.output_item.added',
+          item: { type: 'web_search_call', id: 'ws-1', status: 'in_progress' },
+          output_index: 0,
+        },
+        {
+          type: 'response.output_item.done',
+          item: webSearchCall,
+          output_index: 0,
+        },
+        {
+          type: 'response.output_item.added',
+          item: {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            content: [],
+          },
+          output_index: 1,
+        },
+        {
+          type: 'response.output_text.delta',
+          item_id: 'msg-1',
+          delta: 'Nordlys shipped a release.',
+          output_index: 1,
+          content_index: 0,
+        },
+        {
+          type: 'response.output_text.annotation.added',
+          item_id: 'msg-1',
+          output_index: 1,
+          content_index: 0,
+          annotation_index: 0,
+          annotation: {
+            type: 'url_citation',
+            url: 'https://example.com/news',
+            title: 'News',
+          },
+        },
+        {
+          type: 'response.output_item.done',
+          item: { type: 'message', id: 'msg-1', status: 'completed' },
+          output_index: 1,
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+          },
+        },
+      ]);
+
+      const { stream } = await createModel(mockFetch, { generateId }).doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'News?' }] }],
+        tools: [webSearchTool],
+      });
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.filter((part) => part.type.startsWith('tool'))).toEqual([
+        {
+          type: 'tool-input-start',
+          id: 'ws-1',
+          toolName: 'search',
+          providerExecuted: true,
+        },
+        { type: 'tool-input-end', id: 'ws-1' },
+        {
+          type: 'tool-call',
+          toolCallId: 'ws-1',
+          toolName: 'search',
+          input: '{}',
+          providerExecuted: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'ws-1',
+          toolName: 'search',
+          result: { status: 'completed', action: webSearchCall.action },
+        },
+      ]);
+      expect(parts.filter((part) => part.type === 'source')).toEqual([
+        {
+          type: 'source',
+          sourceType: 'url',
+          id: 'source-id',
+          url: 'https://example.com/news',
+          title: 'News',
+        },
+      ]);
+      expect(parts.find((part) => part.type === 'finish')).toMatchObject({
+        finishReason: { unified: 'stop' },
+      });
+    });
+
+    const fileSearchTool = {
+      type: 'provider' as const,
+      id: 'nordlys.file_search' as const,
+      name: 'docs',
+      args: { vectorStoreIds: ['vs_1'] },
+    };
+
+    const fileSearchCall = {
+      type: 'file_search_call',
+      id: 'fs-1',
+      status: 'completed',
+      queries: ['vacation policy'],
+      results: [
+        {
+          attributes: { team: 'people' },
+          file_id: 'file-1',
+          filename: 'handbook.pdf',
+          score: 0.92,
+          text: 'Employees get 25 days of vacation.',
+        },
+      ],
+    };
+
+    const fileSearchResult = {
+      queries: ['vacation policy'],
+      results: [
+        {
+          attributes: { team: 'people' },
+          fileId: 'file-1',
+          filename: 'handbook.pdf',
+          score: 0.92,
+          text: 'Employees get 25 days of vacation.',
+        },
+      ],
+    };
+
+    it('should send the file search tool and map results and citations', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          fileSearchCall,
+          {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [
+              {
+                type: 'output_text',
+                text: 'You get 25 days.',
+                annotations: [
+                  {
+                    type: 'file_citation',
+                    file_id: 'file-1',
+                    filename: 'handbook.pdf',
+                    index: 15,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+      });
+
+      const result = await createModel(mockFetch, { generateId }).doGenerate({
+        prompt: [
+          { role: 'user', content: [{ type: 'text', text: 'Vacation?' }] },
+        ],
+        tools: [fileSearchTool],
+        providerOptions: { nordlys: { include: ['file_search_call.results'] } },
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+      expect(requestBody.tools).toEqual([
+        { type: 'file_search', vector_store_ids: ['vs_1'] },
+      ]);
+      expect(requestBody.include).toEqual(['file_search_call.results']);
+
+      expect(result.content).toEqual([
+        {
+          type: 'tool-call',
+          toolCallId: 'fs-1',
+          toolName: 'docs',
+          input: '{}',
+          providerExecuted: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'fs-1',
+          toolName: 'docs',
+          result: fileSearchResult,
+        },
+        {
+          type: 'text',
+          text: 'You get 25 days.',
+          providerMetadata: { nordlys: { itemId: 'msg-1' } },
+        },
+        {
+          type: 'source',
+          sourceType: 'document',
+          id: 'source-id',
+          mediaType: 'text/plain',
+          title: 'handbook.pdf',
+          filename: 'handbook.pdf',
+          providerMetadata: { nordlys: { fileId: 'file-1' } },
+        },
+      ]);
+    });
+
+    it('should return null file search results when they are not included', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [{ ...fileSearchCall, results: null }],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+      });
+
+      const result = await createModel(mockFetch, { generateId }).doGenerate({
+        prompt: [
+          { role: 'user', content: [{ type: 'text', text: 'Vacation?' }] },
+        ],
+        tools: [fileSearchTool],
+      });
+
+      expect(result.content).toContainEqual({
+        type: 'tool-result',
+        toolCallId: 'fs-1',
+        toolName: 'docs',
+        result: { queries: ['vacation policy'], results: null },
+      });
+    });
+
+    it('should stream file search calls', async () => {
+      const mockFetch = createStreamFetch([
+        {
+          type: 'response.created',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'in_progress',
+            output: [],
+          },
+        },
+        {
+          type: 'response.output_item.added',
+          item: { type: 'file_search_call', id: 'fs-1', status: 'in_progress' },
+          output_index: 0,
+        },
+        {
+          type: 'response.output_item.done',
+          item: fileSearchCall,
+          output_index: 0,
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+          },
+        },
+      ]);
+
+      const { stream } = await createModel(mockFetch, { generateId }).doStream({
+        prompt: [
+          { role: 'user', content: [{ type: 'text', text: 'Vacation?' }] },
+        ],
+        tools: [fileSearchTool],
+      });
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.filter((part) => part.type.startsWith('tool'))).toEqual([
+        {
+          type: 'tool-input-start',
+          id: 'fs-1',
+          toolName: 'docs',
+          providerExecuted: true,
+        },
+        { type: 'tool-input-end', id: 'fs-1' },
+        {
+          type: 'tool-call',
+          toolCallId: 'fs-1',
+          toolName: 'docs',
+          input: '{}',
+          providerExecuted: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'fs-1',
+          toolName: 'docs',
+          result: fileSearchResult,
+        },
+      ]);
+    });
+
+    const imageGenerationTool = {
+      type: 'provider' as const,
+      id: 'nordlys.image_generation' as const,
+      name: 'image',
+      args: { outputFormat: 'webp', partialImages: 1 },
+    };
+
+    it('should map image generation calls to file content', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          {
+            type: 'image_generation_call',
+            id: 'ig-1',
+            status: 'completed',
+            result: 'aW1hZ2U=',
+            revised_prompt: 'A red fox in the snow',
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+      });
+
+      const result = await createModel(mockFetch, { generateId }).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Fox' }] }],
+        tools: [imageGenerationTool],
+      });
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+      expect(requestBody.tools).toEqual([
+        { type: 'image_generation', output_format: 'webp', partial_images: 1 },
+      ]);
+
+      expect(result.content).toEqual([
+        {
+          type: 'tool-call',
+          toolCallId: 'ig-1',
+          toolName: 'image',
+          input: '{}',
+          providerExecuted: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'ig-1',
+          toolName: 'image',
+          result: {
+            status: 'completed',
+            revisedPrompt: 'A red fox in the snow',
+          },
+        },
+        {
+          type: 'file',
+          mediaType: 'image/webp',
+          data: 'aW1hZ2U=',
+          providerMetadata: { nordlys: { itemId: 'ig-1' } },
+        },
+      ]);
+    });
+
+    it('should use the output format reported by the image generation call', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          {
+            type: 'image_generation_call',
+            id: 'ig-1',
+            status: 'completed',
+            result: 'aW1hZ2U=',
+            output_format: 'jpeg',
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+      });
+
+      const result = await createModel(mockFetch, { generateId }).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Fox' }] }],
+        tools: [imageGenerationTool],
+      });
+
+      expect(result.content).toContainEqual(
+        expect.objectContaining({ type: 'file', mediaType: 'image/jpeg' })
+      );
+    });
+
+    it('should stream partial and final images as file parts', async () => {
+      const mockFetch = createStreamFetch([
+        {
+          type: 'response.created',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'in_progress',
+            output: [],
+          },
+        },
+        {
+          type: 'response.output_item.added',
+          item: {
+            type: 'image_generation_call',
+            id: 'ig-1',
+            status: 'in_progress',
+          },
+          output_index: 0,
+        },
+        {
+          type: 'response.image_generation_call.partial_image',
+          item_id: 'ig-1',
+          output_index: 0,
+          partial_image_index: 0,
+          partial_image_b64: 'cGFydGlhbA==',
+        },
+        {
+          type: 'response.output_item.done',
+          item: {
+            type: 'image_generation_call',
+            id: 'ig-1',
+            status: 'completed',
+            result: 'aW1hZ2U=',
+          },
+          output_index: 0,
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+          },
+        },
+      ]);
+
+      const { stream } = await createModel(mockFetch, { generateId }).doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Fox' }] }],
+        tools: [imageGenerationTool],
+      });
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(
+        parts.filter(
+          (part) => part.type.startsWith('tool') || part.type === 'file'
+        )
+      ).toEqual([
+        {
+          type: 'tool-input-start',
+          id: 'ig-1',
+          toolName: 'image',
+          providerExecuted: true,
+        },
+        { type: 'tool-input-end', id: 'ig-1' },
+        {
+          type: 'tool-call',
+          toolCallId: 'ig-1',
+          toolName: 'image',
+          input: '{}',
+          providerExecuted: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'ig-1',
+          toolName: 'image',
+          result: {
+            status: 'generating',
+            partialImageIndex: 0,
+            partialImage: 'cGFydGlhbA==',
+            mediaType: 'image/webp',
+          },
+          preliminary: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'ig-1',
+          toolName: 'image',
+          result: { status: 'completed' },
+        },
+        {
+          type: 'file',
+          mediaType: 'image/webp',
+          data: 'aW1hZ2U=',
+          providerMetadata: { nordlys: { itemId: 'ig-1' } },
+        },
+      ]);
+
+      for (const part of parts) {
+        if (part.type === 'tool-result') {
+          expect(imageGenerationOutputSchema.parse(part.result)).toEqual(
+            part.result
+          );
+        }
+      }
+    });
+  });
+
+  describe('audio output', () => {
+    const audioOptions = {
+      prompt: [
+        {
+          role: 'user' as const,
+          content: [{ type: 'text' as const, text: 'Say hi' }],
+        },
+      ],
+      providerOptions: {
+        nordlys: {
+          modalities: ['text', 'audio'],
+          audio: { format: 'mp3', voice: 'nova' },
+        },
+      },
+    };
+
+    it('should map output audio to a file part and transcript text', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [
+              { type: 'output_audio', data: 'YXVkaW8=', transcript: 'Hi!' },
+            ],
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+      });
+
+      const result = await createModel(mockFetch).doGenerate(audioOptions);
+
+      const requestBody = JSON.parse(
+        mockFetch.mock.calls[0][1]?.body as string
+      );
+      expect(requestBody.modalities).toEqual(['text', 'audio']);
+      expect(requestBody.audio).toEqual({ format: 'mp3', voice: 'nova' });
+
+      expect(result.content).toEqual([
+        {
+          type: 'file',
+          mediaType: 'audio/mpeg',
+          data: 'YXVkaW8=',
+          providerMetadata: { nordlys: { itemId: 'msg-1' } },
+        },
+        {
+          type: 'text',
+          text: 'Hi!',
+          providerMetadata: {
+            nordlys: { itemId: 'msg-1', audioTranscript: true },
+          },
+        },
+      ]);
+    });
+
+    it('should stream audio as one file part per message and the transcript as text', async () => {
+      const events = [
+        {
+          type: 'response.created',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'in_progress',
+            output: [],
+          },
+        },
+        {
+          type: 'response.output_audio.delta',
+          item_id: 'msg-1',
+          output_index: 0,
+          delta: 'Y2h1bmsx',
+        },
+        {
+          type: 'response.output_audio_transcript.delta',
+          item_id: 'msg-1',
+          output_index: 0,
+          delta: 'Hi',
+        },
+        {
+          type: 'response.output_audio.delta',
+          item_id: 'msg-1',
+          output_index: 0,
+          delta: 'Y2h1bmsy',
+        },
+        {
+          type: 'response.output_audio_transcript.delta',
+          item_id: 'msg-1',
+          output_index: 0,
+          delta: '!',
+        },
+        {
+          type: 'response.output_audio_transcript.done',
+          item_id: 'msg-1',
+          output_index: 0,
+          transcript: 'Hi!',
+        },
+        {
+          type: 'response.output_item.done',
+          output_index: 0,
+          item: {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [],
+          },
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+          },
+        },
+      ];
+      const mockFetch = createStreamFetch(events);
+
+      const { stream } = await createModel(mockFetch).doStream(audioOptions);
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(
+        parts.filter(
+          (part) => part.type === 'file' || part.type.startsWith('text')
+        )
+      ).toEqual([
+        {
+          type: 'text-start',
+          id: 'msg-1:transcript',
+          providerMetadata: {
+            nordlys: { itemId: 'msg-1', audioTranscript: true },
+          },
+        },
+        { type: 'text-delta', id: 'msg-1:transcript', delta: 'Hi' },
+        { type: 'text-delta', id: 'msg-1:transcript', delta: '!' },
+        { type: 'text-end', id: 'msg-1:transcript' },
+        {
+          type: 'text-end',
+          id: 'msg-1',
+          providerMetadata: { nordlys: { itemId: 'msg-1' } },
+        },
+        {
+          type: 'file',
+          mediaType: 'audio/mpeg',
+          data: 'Y2h1bmsxY2h1bmsy',
+          providerMetadata: { nordlys: { itemId: 'msg-1' } },
+        },
+      ]);
+    });
+
+    it('should emit buffered audio when the stream ends before the message is done', async () => {
+      const events = [
+        {
+          type: 'response.created',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'in_progress',
+            output: [],
+          },
+        },
+        {
+          type: 'response.output_audio.delta',
+          item_id: 'msg-1',
+          output_index: 0,
+          delta: 'Y2h1bmsx',
+        },
+        {
+          type: 'response.incomplete',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'incomplete',
+            incomplete_details: { reason: 'max_output_tokens' },
+            output: [],
+            usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+          },
+        },
+      ];
+      const mockFetch = createStreamFetch(events);
+
+      const { stream } = await createModel(mockFetch).doStream(audioOptions);
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.filter((part) => part.type === 'file')).toEqual([
+        {
+          type: 'file',
+          mediaType: 'audio/mpeg',
+          data: 'Y2h1bmsx',
+          providerMetadata: { nordlys: { itemId: 'msg-1' } },
+        },
+      ]);
+    });
+  });
+
+  describe('errors', () => {
+    it('should throw a typed error for HTTP errors', async () => {
+      const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            error: {
+              message: 'Invalid API key',
+              type: 'authentication_error',
+            },
+          }),
+          { status: 401, headers: { 'x-request-id': 'req_1' } }
+        )
+      );
+
+      const error = await createModel(mockFetch)
+        .doGenerate({ prompt })
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(NordlysAuthenticationError);
+      expect(error).toMatchObject({
+        statusCode: 401,
+        isRetryable: false,
+        requestId: 'req_1',
+      });
+    });
+
+    it('should throw a typed error for errors in the response body', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'failed',
+        output: [],
+        error: {
+          message: 'No model available',
+          type: 'routing_error',
+          code: 'routing_failed',
+        },
+      });
+
+      const error = await createModel(mockFetch)
+        .doGenerate({ prompt })
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(NordlysRoutingError);
+      expect(error).toMatchObject({
+        message: 'No model available',
+        code: 'routing_failed',
+        isRetryable: true,
+      });
+    });
+
+    it('should emit a typed error for stream error events', async () => {
+      const events = [
+        {
+          type: 'response.error',
+          error: {
+            message: 'Prompt too long',
+            type: 'invalid_request_error',
+            code: 'context_length_exceeded',
+            param: 'input',
+          },
+        },
+      ];
+      const mockFetch = createStreamFetch(events);
+
+      const { stream } = await createModel(mockFetch).doStream({ prompt });
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      const errorPart = parts.find((part) => part.type === 'error');
+      expect(errorPart?.error).toBeInstanceOf(
+        NordlysContextLengthExceededError
+      );
+      expect(errorPart?.error).toMatchObject({ param: 'input' });
+    });
+  });
+
+  describe('retries and rate limits', () => {
+    const retry = { maxAttempts: 3, initialDelayMs: 0, jitter: false };
+
+    const rateLimitHeaders = {
+      'x-ratelimit-limit-requests': '100',
+      'x-ratelimit-remaining-requests': '99',
+      'x-ratelimit-reset-requests': '1s',
+      'x-ratelimit-limit-tokens': '10000',
+      'x-ratelimit-remaining-tokens': '9970',
+      'x-ratelimit-reset-tokens': '6ms',
+    };
+
+    const expectedRateLimits = {
+      requests: { limit: 100, remaining: 99, reset: '1s' },
+      tokens: { limit: 10000, remaining: 9970, reset: '6ms' },
+    };
+
+    const rateLimitResponse = () =>
+      new Response(
+        JSON.stringify({
+          error: { message: 'Slow down', type: 'rate_limit_error' },
+        }),
+        { status: 429, headers: { 'retry-after-ms': '0' } }
+      );
+
+    it('should retry retryable errors and expose rate limits', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(rateLimitResponse())
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              id: 'resp-1',
+              model: 'test-model',
+              created_at: 1700000000,
+              status: 'completed',
+              output: [],
+              usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+            }),
+            {
+              headers: {
+                'content-type': 'application/json',
+                ...rateLimitHeaders,
+              },
+            }
+          )
+        );
+
+      const result = await createModel(mockFetch, { retry }).doGenerate({
+        prompt,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.providerMetadata?.nordlys?.rateLimits).toEqual(
+        expectedRateLimits
+      );
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            error: { message: 'Bad input', type: 'invalid_request_error' },
+          }),
+          { status: 400 }
+        )
+      );
+
+      await expect(
+        createModel(mockFetch, { retry }).doGenerate({ prompt })
+      ).rejects.toBeInstanceOf(NordlysInvalidRequestError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockImplementation(async () => rateLimitResponse());
+
+      await expect(
+        createModel(mockFetch, { retry }).doGenerate({ prompt })
+      ).rejects.toBeInstanceOf(NordlysRateLimitError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry the initial stream request but not stream errors', async () => {
+      const events = [
+        {
+          type: 'response.error',
+          error: { message: 'Overloaded', type: 'overloaded_error' },
+        },
+      ];
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(rateLimitResponse())
+        .mockResolvedValueOnce(
+          new Response(
+            events
+              .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+              .join(''),
+            {
+              headers: {
+                'content-type': 'text/event-stream',
+                ...rateLimitHeaders,
+              },
+            }
+          )
+        );
+
+      const { stream } = await createModel(mockFetch, { retry }).doStream({
+        prompt,
+      });
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(parts.find((part) => part.type === 'error')?.error).toBeInstanceOf(
+        NordlysServerOverloadedError
+      );
+      expect(
+        parts.find((part) => part.type === 'finish')?.providerMetadata?.nordlys
+          ?.rateLimits
+      ).toEqual(expectedRateLimits);
+    });
+  });
+
+  describe('incomplete and failed responses', () => {
+    const usage = { input_tokens: 10, output_tokens: 20, total_tokens: 30 };
+
+    it('should map incomplete_details.reason in doGenerate', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'incomplete',
+        incomplete_details: { reason: 'content_filter' },
+        output: [],
+        usage,
+      });
+
+      const result = await createModel(mockFetch).doGenerate({ prompt });
+
+      expect(result.finishReason).toEqual({
+        unified: 'content-filter',
+        raw: 'content_filter',
+      });
+    });
+
+    it('should not map an incomplete response without reason to stop', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'incomplete',
+        output: [],
+        usage,
+      });
+
+      const result = await createModel(mockFetch).doGenerate({ prompt });
+
+      expect(result.finishReason).toEqual({ unified: 'other', raw: undefined });
+    });
+
+    it('should not map a streamed incomplete response without reason to stop', async () => {
+      const mockFetch = createStreamFetch([
+        {
+          type: 'response.incomplete',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'incomplete',
+            output: [],
+            usage,
+          },
+        },
+      ]);
+
+      const { stream } = await createModel(mockFetch).doStream({ prompt });
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.find((part) => part.type === 'finish')).toMatchObject({
+        finishReason: { unified: 'other' },
+      });
+    });
+
+    it('should handle response.incomplete stream events', async () => {
+      const mockFetch = createStreamFetch([
+        {
+          type: 'response.incomplete',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'incomplete',
+            incomplete_details: { reason: 'max_output_tokens' },
+            output: [],
+            usage,
+          },
+        },
+      ]);
+
+      const { stream } = await createModel(mockFetch).doStream({ prompt });
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.some((part) => part.type === 'error')).toBe(false);
+      expect(parts.find((part) => part.type === 'finish')).toMatchObject({
+        finishReason: { unified: 'length', raw: 'max_output_tokens' },
+        usage: { outputTokens: { total: 20 } },
+      });
+    });
+
+    it('should emit an error for response.failed stream events', async () => {
+      const mockFetch = createStreamFetch([
+        {
+          type: 'response.failed',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'failed',
+            output: [],
+            error: {
+              message: 'Upstream model failed',
+              type: 'server_error',
+              code: 'server_overloaded',
+            },
+          },
+        },
+      ]);
+
+      const { stream } = await createModel(mockFetch).doStream({ prompt });
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.find((part) => part.type === 'error')?.error).toBeInstanceOf(
+        NordlysServerOverloadedError
+      );
+      expect(parts.find((part) => part.type === 'finish')).toMatchObject({
+        finishReason: { unified: 'error', raw: undefined },
+      });
+    });
+  });
+
+  describe('background mode', () => {
+    const createResponse = (status: string, output: unknown[] = []) =>
+      new Response(
+        JSON.stringify({
+          id: 'resp-1',
+          model: 'test-model',
+          created_at: 1700000000,
+          status,
+          output,
+          usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+        }),
+        { headers: { 'content-type': 'application/json' } }
+      );
+
+    const requests = (mockFetch: ReturnType<typeof vi.fn<typeof fetch>>) =>
+      mockFetch.mock.calls.map(([url, init]) => `${init?.method} ${url}`);
+
+    it('should poll until the response reaches a terminal status', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createResponse('queued'))
+        .mockResolvedValueOnce(createResponse('in_progress'))
+        .mockResolvedValueOnce(
+          createResponse('completed', [
+            {
+              type: 'message',
+              id: 'msg-1',
+              role: 'assistant',
+              status: 'completed',
+              content: [{ type: 'output_text', text: 'Done' }],
+            },
+          ])
+        );
+
+      const result = await createModel(mockFetch).doGenerate({
+        prompt,
+        providerOptions: {
+          nordlys: { background: true, background_poll_interval_ms: 1 },
+        },
+      });
+
+      expect(requests(mockFetch)).toEqual([
+        'POST https://example.com/responses',
+        'GET https://example.com/responses/resp-1',
+        'GET https://example.com/responses/resp-1',
+      ]);
+      expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual(
+        expect.objectContaining({ background: true })
+      );
+      expect(result.content).toEqual([
+        expect.objectContaining({ type: 'text', text: 'Done' }),
+      ]);
+    });
+
+    it('should cancel the response when the call is aborted', async () => {
+      const controller = new AbortController();
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockImplementation(async (url) => {
+          if (url === 'https://example.com/responses') {
+            setTimeout(() => controller.abort(), 1);
+            return createResponse('queued');
+          }
+          return createResponse('cancelled');
+        });
+
+      await expect(
+        createModel(mockFetch).doGenerate({
+          prompt,
+          abortSignal: controller.signal,
+          providerOptions: { nordlys: { background: true } },
+        })
+      ).rejects.toThrow();
+
+      expect(requests(mockFetch)).toEqual([
+        'POST https://example.com/responses',
+        'POST https://example.com/responses/resp-1/cancel',
+      ]);
+    });
+
+    it('should cancel the response when the timeout is exceeded', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockImplementation(async (url) =>
+          url === 'https://example.com/responses/resp-1/cancel'
+            ? createResponse('cancelled')
+            : createResponse('in_progress')
+        );
+
+      await expect(
+        createModel(mockFetch).doGenerate({
+          prompt,
+          providerOptions: {
+            nordlys: {
+              background: true,
+              background_poll_interval_ms: 5,
+              background_timeout_ms: 1,
+            },
+          },
+        })
+      ).rejects.toBeInstanceOf(NordlysResponseTimeoutError);
+
+      expect(requests(mockFetch)).toContain(
+        'POST https://example.com/responses/resp-1/cancel'
+      );
+    });
+
+    it('should cancel the response when polling fails', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createResponse('queued'))
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ unexpected: true }), {
+            headers: { 'content-type': 'application/json' },
+          })
+        )
+        .mockResolvedValueOnce(createResponse('cancelled'));
+
+      await expect(
+        createModel(mockFetch).doGenerate({
+          prompt,
+          providerOptions: {
+            nordlys: { background: true, background_poll_interval_ms: 1 },
+          },
+        })
+      ).rejects.toThrow();
+
+      expect(requests(mockFetch)).toEqual([
+        'POST https://example.com/responses',
+        'GET https://example.com/responses/resp-1',
+        'POST https://example.com/responses/resp-1/cancel',
+      ]);
+    });
+
+    it('should throw for cancelled responses', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createResponse('queued'))
+        .mockResolvedValueOnce(createResponse('cancelled'));
+
+      await expect(
+        createModel(mockFetch).doGenerate({
+          prompt,
+          providerOptions: {
+            nordlys: { background: true, background_poll_interval_ms: 1 },
+          },
+        })
+      ).rejects.toBeInstanceOf(NordlysResponseCancelledError);
+    });
+
+    it('should throw for failed responses without error details', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createResponse('queued'))
+        .mockResolvedValueOnce(createResponse('failed'));
+
+      await expect(
+        createModel(mockFetch).doGenerate({
+          prompt,
+          providerOptions: {
+            nordlys: { background: true, background_poll_interval_ms: 1 },
+          },
+        })
+      ).rejects.toMatchObject({
+        name: 'AI_NordlysAPIError',
+        message: 'Response resp-1 failed',
+      });
+    });
+  });
+
+  describe('resumable streaming', () => {
+    const events = [
+      {
+        type: 'response.created',
+        sequence_number: 0,
+        response: {
+          id: 'resp-1',
+          model: 'test-model',
+          created_at: 1700000000,
+          status: 'in_progress',
+        },
+      },
+      {
+        type: 'response.output_item.added',
+        sequence_number: 1,
+        output_index: 0,
+        item: {
+          type: 'message',
+          id: 'msg-1',
+          role: 'assistant',
+          status: 'in_progress',
+          content: [],
+        },
+      },
+      {
+        type: 'response.output_text.delta',
+        sequence_number: 2,
+        item_id: 'msg-1',
+        output_index: 0,
+        content_index: 0,
+        delta: 'Hello',
+      },
+      {
+        type: 'response.output_text.delta',
+        sequence_number: 3,
+        item_id: 'msg-1',
+        output_index: 0,
+        content_index: 0,
+        delta: ' world',
+      },
+      {
+        type: 'response.completed',
+        sequence_number: 4,
+        response: {
+          id: 'resp-1',
+          model: 'test-model',
+          created_at: 1700000000,
+          status: 'completed',
+          output: [],
+          usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+        },
+      },
+    ];
+
+    const encodeEvents = (list: unknown[]) =>
+      list.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+
+    // delivers the given events, then fails like a dropped connection
+    const createDroppedResponse = (list: unknown[]) =>
+      new Response(
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(encodeEvents(list)));
+          },
+          pull(controller) {
+            controller.error(new TypeError('terminated'));
+          },
+        }),
+        { headers: { 'content-type': 'text/event-stream' } }
+      );
+
+    it('should resume a dropped stream without duplicating events', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createDroppedResponse(events.slice(0, 3)))
+        .mockResolvedValueOnce(createStreamResponse(events.slice(1)));
+
+      const { stream } = await createModel(mockFetch).doStream({ prompt });
+      const parts = await convertReadableStreamToArray(stream);
+
+      // events buffered in the dropped connection may be lost,
+      // so the exact resume position depends on what was delivered
+      expect(mockFetch.mock.calls[1][0]).toMatch(
+        /^https:\/\/example\.com\/responses\/resp-1\?stream=true&starting_after=\d+$/
+      );
+      expect(mockFetch.mock.calls[1][1]?.method).toBe('GET');
+
+      expect(
+        parts
+          .filter((part) => part.type === 'text-delta')
+          .map((part) => part.delta)
+      ).toEqual(['Hello', ' world']);
+      expect(parts.some((part) => part.type === 'raw')).toBe(false);
+      expect(parts.find((part) => part.type === 'finish')).toMatchObject({
+        finishReason: { unified: 'stop' },
+        providerMetadata: { nordlys: { streamReconnects: 1 } },
+      });
+    });
+
+    it('should emit a resumed marker when raw chunks are included', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createDroppedResponse(events.slice(0, 3)))
+        .mockResolvedValueOnce(createStreamResponse(events.slice(1)));
+
+      const { stream } = await createModel(mockFetch).doStream({
+        prompt,
+        includeRawChunks: true,
+      });
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts).toContainEqual({
+        type: 'raw',
+        rawValue: {
+          type: 'nordlys.stream.resumed',
+          response_id: 'resp-1',
+          starting_after: expect.any(Number),
+        },
+      });
+    });
+
+    it('should not resume responses that are not stored', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createDroppedResponse(events.slice(0, 3)));
+
+      const { stream } = await createModel(mockFetch).doStream({
+        prompt,
+        providerOptions: { nordlys: { store: false } },
+      });
+
+      await expect(convertReadableStreamToArray(stream)).rejects.toThrow(
+        'terminated'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop resuming after the maximum number of reconnects', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(createDroppedResponse(events.slice(0, 3)))
+        .mockResolvedValueOnce(createDroppedResponse(events.slice(3, 4)));
+
+      const { stream } = await createModel(mockFetch).doStream({
+        prompt,
+        providerOptions: { nordlys: { stream_max_reconnects: 1 } },
+      });
+
+      await expect(convertReadableStreamToArray(stream)).rejects.toThrow(
+        'terminated'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('logprobs', () => {
+    const prompt = [
+      {
+        role: 'user' as const,
+        content: [{ type: 'text' as const, text: 'Is it spam?' }],
+      },
+    ];
+
+    const yesLogprob = {
+      token: 'Yes',
+      logprob: -0.01,
+      bytes: [89, 101, 115],
+      top_logprobs: [
+        { token: 'Yes', logprob: -0.01, bytes: [89, 101, 115] },
+        { token: 'No', logprob: -4.6, bytes: [78, 111] },
+      ],
+    };
+
+    const dotLogprob = { token: '.', logprob: -0.3, bytes: [46] };
+
+    const expectedLogprobs = [
+      {
+        token: 'Yes',
+        logprob: -0.01,
+        bytes: [89, 101, 115],
+        topLogprobs: [
+          { token: 'Yes', logprob: -0.01, bytes: [89, 101, 115] },
+          { token: 'No', logprob: -4.6, bytes: [78, 111] },
+        ],
+      },
+      { token: '.', logprob: -0.3, bytes: [46], topLogprobs: [] },
+    ];
+
+    it('should include output text logprobs when logprobs are requested', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [],
+        usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+      });
+
+      await createModel(mockFetch).doGenerate({
+        prompt,
+        providerOptions: { nordlys: { top_logprobs: 2 } },
+      });
+
+      expect(
+        JSON.parse(mockFetch.mock.calls[0][1]?.body as string).include
+      ).toEqual(['message.output_text.logprobs']);
+    });
+
+    it('should expose logprobs per text item in doGenerate', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'test-model',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [
+              {
+                type: 'output_text',
+                text: 'Yes.',
+                logprobs: [yesLogprob, dotLogprob],
+              },
+            ],
+          },
+        ],
+        usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+      });
+
+      const result = await createModel(mockFetch).doGenerate({
+        prompt,
+        providerOptions: { nordlys: { logprobs: true, top_logprobs: 2 } },
+      });
+
+      expect(result.content[0]).toEqual({
+        type: 'text',
+        text: 'Yes.',
+        providerMetadata: {
+          nordlys: { itemId: 'msg-1', logprobs: expectedLogprobs },
+        },
+      });
+      expect(result.providerMetadata?.nordlys?.logprobs).toEqual([
+        expectedLogprobs,
+      ]);
+    });
+
+    it('should accumulate logprobs across streaming deltas', async () => {
+      const events = [
+        {
+          type: 'response.output_item.added',
+          output_index: 0,
+          item: {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'in_progress',
+            content: [],
+          },
+        },
+        {
+          type: 'response.output_text.delta',
+          item_id: 'msg-1',
+          output_index: 0,
+          content_index: 0,
+          delta: 'Yes',
+          logprobs: [yesLogprob],
+        },
+        {
+          type: 'response.output_text.delta',
+          item_id: 'msg-1',
+          output_index: 0,
+          content_index: 0,
+          delta: '.',
+          logprobs: [dotLogprob],
+        },
+        {
+          type: 'response.output_text.done',
+          item_id: 'msg-1',
+          output_index: 0,
+          content_index: 0,
+          text: 'Yes.',
+          logprobs: [yesLogprob, dotLogprob],
+        },
+        {
+          type: 'response.output_item.done',
+          output_index: 0,
+          item: {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [],
+          },
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'test-model',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+          },
+        },
+      ];
+      const mockFetch = createStreamFetch(events);
+
+      const { stream } = await createModel(mockFetch).doStream({
+        prompt,
+        providerOptions: { nordlys: { logprobs: true, top_logprobs: 2 } },
+      });
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(parts.find((part) => part.type === 'text-end')).toEqual({
+        type: 'text-end',
+        id: 'msg-1',
+        providerMetadata: {
+          nordlys: { itemId: 'msg-1', logprobs: expectedLogprobs },
+        },
+      });
+      expect(
+        parts.find((part) => part.type === 'finish')?.providerMetadata?.nordlys
+          ?.logprobs
+      ).toEqual([expectedLogprobs]);
+    });
+  });
+
+  describe('routing metadata', () => {
+    const modelId = 'nordlys/hypernova';
+
+    it('should expose the models that served the response in doGenerate', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'nordlys/hypernova',
+        provider: 'anthropic',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [
+          {
+            type: 'reasoning',
+            id: 'rs-1',
+            model: 'reasoner-1',
+            summary: [],
+          },
+          {
+            type: 'message',
+            id: 'msg-1',
+            model: 'writer-1',
+            role: 'assistant',
+            status: 'completed',
+            content: [{ type: 'output_text', text: 'Hi' }],
+          },
+        ],
+        usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+      });
+
+      const result = await createModel(mockFetch, { modelId }).doGenerate({
+        prompt,
+      });
+
+      expect(result.providerMetadata?.nordlys?.routing).toEqual({
+        model: 'nordlys/hypernova',
+        provider: 'anthropic',
+        models: ['nordlys/hypernova', 'reasoner-1', 'writer-1'],
+        items: [
+          { itemId: 'rs-1', model: 'reasoner-1' },
+          { itemId: 'msg-1', model: 'writer-1' },
+        ],
+      });
+    });
+
+    it('should expose the models that served the response in the finish part', async () => {
+      const events = [
+        {
+          type: 'response.created',
+          response: {
+            id: 'resp-1',
+            model: 'nordlys/hypernova',
+            created_at: 1700000000,
+            status: 'in_progress',
+          },
+        },
+        {
+          type: 'response.output_item.added',
+          output_index: 0,
+          model: 'writer-1',
+          item: {
+            type: 'message',
+            id: 'msg-1',
+            role: 'assistant',
+            status: 'in_progress',
+            content: [],
+          },
+        },
+        {
+          type: 'response.output_text.done',
+          item_id: 'msg-1',
+          output_index: 0,
+          content_index: 0,
+          text: 'Hi',
+          model: 'writer-2',
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'nordlys/hypernova',
+            provider: 'openai',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+          },
+        },
+      ];
+      const mockFetch = createStreamFetch(events);
+
+      const { stream } = await createModel(mockFetch, { modelId }).doStream({
+        prompt,
+      });
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(
+        parts.find((part) => part.type === 'finish')?.providerMetadata?.nordlys
+          ?.routing
+      ).toEqual({
+        model: 'nordlys/hypernova',
+        provider: 'openai',
+        models: ['nordlys/hypernova', 'writer-2'],
+        items: [{ itemId: 'msg-1', model: 'writer-2' }],
+      });
+    });
+  });
+
+  describe('model fallback', () => {
+    const fallbackOptions = {
+      modelId: 'nordlys/hypernova',
+      settings: { fallbackModels: ['nordlys/nova', 'nordlys/supernova'] },
+      retry: { maxAttempts: 1 },
+    };
+
+    const routingErrorResponse = () =>
+      new Response(
+        JSON.stringify({
+          error: { message: 'No route', type: 'routing_error' },
+        }),
+        { status: 502 }
+      );
+
+    const overloadedResponse = () =>
+      new Response(
+        JSON.stringify({ error: { message: 'Overloaded', type: 'server' } }),
+        { status: 503 }
+      );
+
+    const requestedModels = (mockFetch: ReturnType<typeof vi.fn>) =>
+      mockFetch.mock.calls.map(
+        ([, init]) => JSON.parse((init as RequestInit).body as string).model
+      );
+
+    it('should fall back to the next model on retryable errors and record attempts', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(routingErrorResponse())
+        .mockResolvedValueOnce(overloadedResponse())
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              id: 'resp-1',
+              model: 'nordlys/supernova',
+              created_at: 1700000000,
+              status: 'completed',
+              output: [],
+              usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+            }),
+            { headers: { 'content-type': 'application/json' } }
+          )
+        );
+
+      const result = await createModel(mockFetch, fallbackOptions).doGenerate({
+        prompt,
+      });
+
+      expect(requestedModels(mockFetch)).toEqual([
+        'nordlys/hypernova',
+        'nordlys/nova',
+        'nordlys/supernova',
+      ]);
+      expect(result.providerMetadata?.nordlys?.attempts).toEqual([
+        {
+          model: 'nordlys/hypernova',
+          error: {
+            name: 'AI_NordlysRoutingError',
+            message: 'No route',
+            statusCode: 502,
+            type: 'routing_error',
+          },
+        },
+        {
+          model: 'nordlys/nova',
+          error: {
+            name: 'AI_NordlysServerOverloadedError',
+            message: 'Overloaded',
+            statusCode: 503,
+            type: 'server',
+          },
+        },
+        { model: 'nordlys/supernova' },
+      ]);
+      expect(
+        (result.request?.body as { model: string } | undefined)?.model
+      ).toBe('nordlys/supernova');
+    });
+
+    it('should not fall back on non-retryable errors', async () => {
+      const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            error: { message: 'Bad input', type: 'invalid_request_error' },
+          }),
+          { status: 400 }
+        )
+      );
+
+      await expect(
+        createModel(mockFetch, fallbackOptions).doGenerate({ prompt })
+      ).rejects.toThrow('Bad input');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw the last error when every model fails', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockImplementation(async () => overloadedResponse());
+
+      await expect(
+        createModel(mockFetch, fallbackOptions).doGenerate({ prompt })
+      ).rejects.toThrow('Overloaded');
+      expect(requestedModels(mockFetch)).toEqual([
+        'nordlys/hypernova',
+        'nordlys/nova',
+        'nordlys/supernova',
+      ]);
+    });
+
+    it('should fall back before the stream is returned and record attempts in the finish part', async () => {
+      const events = [
+        {
+          type: 'response.created',
+          response: {
+            id: 'resp-1',
+            model: 'nordlys/nova',
+            created_at: 1700000000,
+            status: 'in_progress',
+          },
+        },
+        {
+          type: 'response.completed',
+          response: {
+            id: 'resp-1',
+            model: 'nordlys/nova',
+            created_at: 1700000000,
+            status: 'completed',
+            output: [],
+            usage: { input_tokens: 1, output_tokens: 2, total_tokens: 3 },
+          },
+        },
+      ];
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(routingErrorResponse())
+        .mockResolvedValueOnce(createStreamResponse(events));
+
+      const { stream } = await createModel(mockFetch, fallbackOptions).doStream(
+        { prompt }
+      );
+
+      const parts = await convertReadableStreamToArray(stream);
+
+      expect(requestedModels(mockFetch)).toEqual([
+        'nordlys/hypernova',
+        'nordlys/nova',
+      ]);
+      expect(
+        parts.find((part) => part.type === 'finish')?.providerMetadata?.nordlys
+          ?.attempts
+      ).toEqual([
+        {
+          model: 'nordlys/hypernova',
+          error: {
+            name: 'AI_NordlysRoutingError',
+            message: 'No route',
+            statusCode: 502,
+            type: 'routing_error',
+          },
+        },
+        { model: 'nordlys/nova' },
+      ]);
+    });
+
+    it('should not record attempts without fallback models', async () => {
+      const mockFetch = createJsonFetch({
+        id: 'resp-1',
+        model: 'nordlys/hypernova',
+        created_at: 1700000000,
+        status: 'completed',
+        output: [],
+        usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+      });
+
+      const result = await createModel(mockFetch, {
+        modelId: 'nordlys/hypernova',
+      }).doGenerate({ prompt });
+
+      expect(result.providerMetadata?.nordlys?.attempts).toBeUndefined();
+    });
+  });
+
   describe('streaming with reasoning + tool calls + text', () => {
     it('should properly handle reasoning ? tool calls ? text streaming sequence', async () => {
       // Create a mock ReadableStream that emits events in sequence:
@@ -1,5 +1,6 @@
 import {
   APICallError,
+  type JSONObject,
   type LanguageModelV3,
   type LanguageModelV3CallOptions,
   type LanguageModelV3Content,
@@ -10,14 +11,20 @@ import {
   type SharedV3ProviderMetadata,
   type SharedV3Warning,
 } from '@ai-sdk/provider';
-import type { FetchFunction } from '@ai-sdk/provider-utils';
+import type { FetchFunction, IdGenerator } from '@ai-sdk/provider-utils';
 import {
   combineHeaders,
+  convertBase64ToUint8Array,
+  convertUint8ArrayToBase64,
   createEventSourceResponseHandler,
   createJsonResponseHandler,
-  type ParseResult,
+  createToolNameMapping,
+  delay,
+  generateId,
+  getFromApi,
   parseProviderOptions,
   postJsonToApi,
+  type ToolNameMapping,
 } from '@ai-sdk/provider-utils';
 import { z } from 'zod';
 import {
@@ -25,19 +32,57 @@ import {
   type NordlysResponsesUsage,
 } from './convert-nordlys-responses-usage';
 import { convertToNordlysResponseInput } from './convert-to-nordlys-response-input';
+import { mapNordlysAnnotation } from './map-nordlys-annotation';
 import { mapNordlysFinishReason } from './map-nordlys-finish-reason';
+import { mapNordlysLogprobs } from './map-nordlys-logprobs';
 import {
   type NordlysChatSettings,
+  type NordlysProviderOptions,
   nordlysProviderOptions,
 } from './nordlys-chat-options';
-import { nordlysFailedResponseHandler } from './nordlys-error';
+import {
+  createNordlysAPIError,
+  NordlysAPIError,
+  NordlysResponseCancelledError,
+  NordlysResponseTimeoutError,
+  nordlysFailedResponseHandler,
+} from './nordlys-error';
+import {
+  getModelCapabilities,
+  getModelCapabilityWarnings,
+  type NordlysChatModelId,
+} from './nordlys-models';
+import { prepareRouting } from './nordlys-prepare-routing';
 import { prepareTools } from './nordlys-prepare-tools';
+import { parseNordlysRateLimits } from './nordlys-rate-limits';
 import type {
+  NordlysPredictionParam,
+  NordlysResponseFileSearchToolCall,
+  NordlysResponseFunctionWebSearch,
+  NordlysResponseImageGenerationCall,
+  NordlysResponseOutputAudio,
   NordlysResponseOutputItemDoneEvent,
   NordlysResponseOutputItemUnion,
+  NordlysResponseOutputTextAnnotation,
+  NordlysResponseOutputTextLogprob,
   NordlysResponseStreamEventUnion,
+  NordlysResponseTextConfig,
+  NordlysResponseTextFormat,
+  NordlysToolUnion,
+  NordlysWebSearchTool,
 } from './nordlys-responses-types';
+import {
+  createResumableEventStream,
+  type NordlysResumableStreamChunk,
+} from './nordlys-resumable-stream';
+import { type NordlysRetrySettings, withNordlysRetry } from './nordlys-retry';
+import {
+  getNordlysRoutingMetadata,
+  type NordlysRoutingState,
+  recordNordlysItemModel,
+} from './nordlys-routing';
 import type { NordlysResponseRequest } from './nordlys-types';
+import { webSearchActionSchema } from './nordlys-web-search-tool';
 import {
   createStreamState,
   handleContentPartAdded,
@@ -54,8 +99,21 @@ interface NordlysChatConfig {
   headers: () => Record<string, string | undefined>;
   fetch?: FetchFunction;
   defaultProvider?: string;
+  generateId?: IdGenerator;
+  retry?: NordlysRetrySettings;
 }
 
+/**
+ * Call options after model-level settings have been applied.
+ * Provider options are loosely typed because model-level options are not JSON values.
+ */
+type NordlysMergedCallOptions = Omit<
+  LanguageModelV3CallOptions,
+  'providerOptions'
+> & {
+  providerOptions?: Record<string, unknown>;
+};
+
 // Constants for response status values
 const RESPONSE_STATUS = {
   COMPLETED: 'completed',
@@ -100,16 +158,86 @@ const nordlysResponseSchema = z.object({
   provider: z.string().optional(),
   service_tier: z.string().optional(),
   system_fingerprint: z.string().optional(),
+  incomplete_details: z
+    .object({
+      reason: z.string().nullish(),
+    })
+    .nullish(),
   error: z
     .object({
       message: z.string(),
       type: z.string(),
       param: z.unknown().nullish(),
-      code: z.unknown().nullish(),
+      code: z.union([z.string(), z.number()]).nullish(),
     })
     .nullish(),
 });
 
+// Response of a Responses API request, as returned by the API call helpers
+type NordlysResponseResult = {
+  responseHeaders?: Record<string, string>;
+  value: z.infer<typeof nordlysResponseSchema>;
+  rawValue?: unknown;
+};
+
+// Polling settings for background responses
+type NordlysBackgroundPolling = {
+  pollIntervalMs: number;
+  timeoutMs: number;
+};
+
+// Zod schema for output text annotations
+// Unknown annotation types are accepted and ignored when mapping sources
+const nordlysAnnotationSchema = z.union([
+  z.object({
+    type: z.literal('url_citation'),
+    url: z.string(),
+    title: z.string().optional(),
+    start_index: z.number().optional(),
+    end_index: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('file_citation'),
+    file_id: z.string(),
+    filename: z.string().optional(),
+    index: z.number().optional(),
+  }),
+  z.object({ type: z.string() }),
+]);
+
+// Zod schema for output text logprobs (present when message.output_text.logprobs is included)
+const nordlysLogprobsSchema = z.array(
+  z.object({
+    token: z.string(),
+    logprob: z.number(),
+    bytes: z.array(z.number()).nullish(),
+    top_logprobs: z
+      .array(
+        z.object({
+          token: z.string(),
+          logprob: z.number(),
+          bytes: z.array(z.number()).nullish(),
+        })
+      )
+      .nullish(),
+  })
+);
+
+// Zod schema for file search results (present when file_search_call.results is included)
+const fileSearchResultsSchema = z
+  .array(
+    z.object({
+      attributes: z
+        .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+        .nullish(),
+      file_id: z.string(),
+      filename: z.string(),
+      score: z.number(),
+      text: z.string(),
+    })
+  )
+  .nullish();
+
 // Zod schema for Responses API stream events
 const nordlysResponseStreamEventSchema = z.union([
   z.object({
@@ -139,6 +267,32 @@ const nordlysResponseStreamEventSchema = z.union([
         arguments: z.string(),
         status: z.string().optional(),
       }),
+      z.object({
+        id: z.string(),
+        type: z.literal('web_search_call'),
+        status: z.string(),
+        action: webSearchActionSchema.nullish(),
+      }),
+      z.object({
+        id: z.string(),
+        type: z.literal('image_generation_call'),
+        status: z.string(),
+        result: z.string().nullish(),
+        output_format: z.enum(['png', 'jpeg', 'webp']).nullish(),
+        revised_prompt: z.string().nullish(),
+      }),
+      z.object({
+        id: z.string(),
+        type: z.literal('file_search_call'),
+        status: z.string(),
+        queries: z.array(z.string()).optional(),
+        results: fileSearchResultsSchema,
+      }),
+      z.object({
+        id: z.string(),
+        type: z.literal('reasoning'),
+        encrypted_content: z.string().nullish(),
+      }),
       z.object({
         id: z.string(),
         type: z.string(),
@@ -157,6 +311,7 @@ const nordlysResponseStreamEventSchema = z.union([
     item_id: z.string(),
     output_index: z.number(),
     content_index: z.number(),
+    logprobs: nordlysLogprobsSchema.optional(),
   }),
   z.object({
     type: z.literal('response.output_text.done'),
@@ -164,11 +319,53 @@ const nordlysResponseStreamEventSchema = z.union([
     content_index: z.number(),
     output_index: z.number(),
     text: z.string(),
-    logprobs: z.array(z.unknown()).optional(),
+    logprobs: nordlysLogprobsSchema.optional(),
     // Nordlys-specific optional fields
     model: z.string().optional(),
     sequence_number: z.number().optional(),
   }),
+  z.object({
+    type: z.literal('response.output_text.annotation.added'),
+    item_id: z.string(),
+    output_index: z.number(),
+    content_index: z.number(),
+    annotation_index: z.number().optional(),
+    annotation: nordlysAnnotationSchema,
+    sequence_number: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('response.image_generation_call.partial_image'),
+    item_id: z.string(),
+    output_index: z.number(),
+    partial_image_index: z.number(),
+    partial_image_b64: z.string(),
+    output_format: z.enum(['png', 'jpeg', 'webp']).optional(),
+    sequence_number: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('response.output_audio.delta'),
+    item_id: z.string(),
+    output_index: z.number(),
+    content_index: z.number().optional(),
+    delta: z.string(),
+    sequence_number: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('response.output_audio_transcript.delta'),
+    item_id: z.string(),
+    output_index: z.number(),
+    content_index: z.number().optional(),
+    delta: z.string(),
+    sequence_number: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('response.output_audio_transcript.done'),
+    item_id: z.string(),
+    output_index: z.number(),
+    content_index: z.number().optional(),
+    transcript: z.string().optional(),
+    sequence_number: z.number().optional(),
+  }),
   z.object({
     type: z.literal('response.reasoning_text.delta'),
     delta: z.string(),
@@ -279,36 +476,60 @@ const nordlysResponseStreamEventSchema = z.union([
     type: z.literal('response.completed'),
     response: nordlysResponseSchema,
   }),
+  z.object({
+    type: z.literal('response.incomplete'),
+    response: nordlysResponseSchema,
+  }),
+  z.object({
+    type: z.literal('response.failed'),
+    response: nordlysResponseSchema,
+  }),
   z.object({
     type: z.literal('response.error'),
     error: z.object({
       message: z.string(),
       type: z.string(),
       param: z.unknown().nullish(),
-      code: z.unknown().nullish(),
+      code: z.union([z.string(), z.number()]).nullish(),
     }),
   }),
 ]);
 
 export class NordlysChatLanguageModel implements LanguageModelV3 {
   readonly specificationVersion = 'v3';
-  readonly modelId: string;
+  readonly modelId: NordlysChatModelId;
   private readonly config: NordlysChatConfig;
   private readonly settings?: NordlysChatSettings;
+  private readonly generateId: IdGenerator;
 
   constructor(
-    modelId: string,
+    modelId: NordlysChatModelId,
     settings: NordlysChatSettings | undefined,
     config: NordlysChatConfig
   ) {
     this.modelId = modelId;
     this.config = config;
     this.settings = settings;
+    this.generateId = config.generateId ?? generateId;
   }
 
-  readonly supportedUrls: Record<string, RegExp[]> = {
-    'application/pdf': [/^https:\/\/.*$/],
-  };
+  /**
+   * URLs passed through to the API instead of being downloaded. Image URLs
+   * are only supported by known models with vision.
+   */
+  get supportedUrls(): Record<string, RegExp[]> {
+    const capabilities = getModelCapabilities(this.modelId);
+
+    return {
+      ...((capabilities == null ||
+        capabilities.inputModalities.includes('file')) && {
+        'application/pdf': [/^https:\/\/.*$/],
+      }),
+      ...(capabilities?.inputModalities.includes('image') && {
+        'image/*': [/^https?:\/\/.*$/],
+      }),
+    };
+  }
 
   get provider(): string {
     return this.config.provider;
@@ -380,53 +601,359 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
     return result;
   }
 
+  /**
+   * Builds the text output format from the call's response format.
+   * JSON with a schema maps to `json_schema`, JSON without a schema to `json_object`.
+   */
+  private buildTextFormat(
+    responseFormat: Extract<
+      LanguageModelV3CallOptions['responseFormat'],
+      { type: 'json' }
+    >,
+    strictJsonSchema: boolean | undefined
+  ): {
+    format: NordlysResponseTextFormat;
+    warnings: SharedV3Warning[];
+  } {
+    const warnings: SharedV3Warning[] = [];
+
+    if (responseFormat.schema == null) {
+      if (strictJsonSchema !== undefined) {
+        warnings.push({
+          type: 'unsupported',
+          feature: 'strict_json_schema',
+          details:
+            'strict_json_schema is only applied when a JSON schema is provided in the response format.',
+        });
+      }
+
+      if (responseFormat.name != null || responseFormat.description != null) {
+        warnings.push({
+          type: 'unsupported',
+          feature: 'responseFormat',
+          details:
+            'JSON response format name and description are only supported together with a schema.',
+        });
+      }
+
+      return { format: { type: 'json_object' }, warnings };
+    }
+
+    return {
+      format: {
+        type: 'json_schema',
+        name: responseFormat.name ?? 'response',
+        schema: responseFormat.schema,
+        ...(responseFormat.description != null && {
+          description: responseFormat.description,
+        }),
+        strict: strictJsonSchema ?? true,
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Converts the Chat Completions style `response_format` provider option
+   * to the Responses API text output format.
+   */
+  private convertResponseFormatOption(
+    responseFormat: NordlysProviderOptions['response_format'],
+    strictJsonSchema: boolean | undefined
+  ): NordlysResponseTextFormat | undefined {
+    if (responseFormat?.OfJSONSchema) {
+      const jsonSchema = responseFormat.OfJSONSchema.json_schema;
+
+      if (!jsonSchema) {
+        return { type: 'json_object' };
+      }
+
+      return {
+        type: 'json_schema',
+        name: jsonSchema.name,
+        schema: jsonSchema.schema,
+        ...(jsonSchema.description != null && {
+          description: jsonSchema.description,
+        }),
+        strict: jsonSchema.strict ?? strictJsonSchema ?? true,
+      };
+    }
+
+    if (responseFormat?.OfJSONObject) {
+      return { type: 'json_object' };
+    }
+
+    if (responseFormat?.OfText) {
+      return { type: 'text' };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Converts the Chat Completions style `prediction` provider option
+   * to the predicted output content of the request.
+   */
+  private convertPredictionOption(
+    prediction: NordlysProviderOptions['prediction']
+  ): NordlysPredictionParam | undefined {
+    if (prediction?.content?.OfString != null) {
+      return { type: 'content', content: prediction.content.OfString };
+    }
+
+    if (prediction?.content?.OfArrayOfContentParts) {
+      return {
+        type: 'content',
+        content: prediction.content.OfArrayOfContentParts,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Builds the text output configuration (`text.format` and `text.verbosity`).
+   * The call's response format takes precedence over the `response_format` provider option.
+   */
+  private buildTextConfig(
+    responseFormat: LanguageModelV3CallOptions['responseFormat'],
+    nordlysOptions: NordlysProviderOptions
+  ): {
+    text: NordlysResponseTextConfig | undefined;
+    warnings: SharedV3Warning[];
+  } {
+    const warnings: SharedV3Warning[] = [];
+    let format: NordlysResponseTextFormat | undefined;
+
+    if (responseFormat?.type === 'json') {
+      if (nordlysOptions.response_format) {
+        warnings.push({
+          type: 'unsupported',
+          feature: 'response_format',
+          details:
+            'The response_format provider option is ignored because a JSON response format is set for the call.',
+        });
+      }
+
+      const result = this.buildTextFormat(
+        responseFormat,
+        nordlysOptions.strict_json_schema
+      );
+      format = result.format;
+      warnings.push(...result.warnings);
+    } else {
+      format = this.convertResponseFormatOption(
+        nordlysOptions.response_format,
+        nordlysOptions.strict_json_schema
+      );
+    }
+
+    const verbosity = nordlysOptions.text_verbosity;
+
+    if (!format && !verbosity) {
+      return { text: undefined, warnings };
+    }
+
+    return {
+      text: {
+        ...(format && { format }),
+        ...(verbosity && { verbosity }),
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Converts the Chat Completions style `web_search_options` provider option
+   * to a `web_search` tool. Settings of a web search tool passed with the call
+   * take precedence.
+   */
+  private applyWebSearchOptions(
+    tools: NordlysToolUnion[] | undefined,
+    webSearchOptions: NordlysProviderOptions['web_search_options']
+  ): NordlysToolUnion[] | undefined {
+    if (!webSearchOptions) {
+      return tools;
+    }
+
+    const approximate = webSearchOptions.user_location?.approximate;
+    const webSearchTool: NordlysWebSearchTool = {
+      type: 'web_search',
+      ...(webSearchOptions.search_context_size && {
+        search_context_size: webSearchOptions.search_context_size,
+      }),
+      ...(approximate && {
+        user_location: { type: 'approximate', ...approximate },
+      }),
+    };
+
+    if (!tools?.some((tool) => tool.type === 'web_search')) {
+      return [...(tools ?? []), webSearchTool];
+    }
+
+    return tools.map((tool) =>
+      tool.type === 'web_search' ? { ...webSearchTool, ...tool } : tool
+    );
+  }
+
+  /**
+   * Builds the output modalities and audio settings. Only text and audio
+   * output are supported, and the audio settings are only sent when audio
+   * output is requested.
+   */
+  private buildOutputModalities(nordlysOptions: NordlysProviderOptions): {
+    modalities: string[] | undefined;
+    audio: NordlysProviderOptions['audio'];
+    warnings: SharedV3Warning[];
+  } {
+    const warnings: SharedV3Warning[] = [];
+
+    const modalities = nordlysOptions.modalities?.filter((modality) => {
+      if (modality === 'text' || modality === 'audio') {
+        return true;
+      }
+
+      warnings.push({
+        type: 'unsupported',
+        feature: `modality: ${modality}`,
+        details: 'Only text and audio output modalities are supported.',
+      });
+      return false;
+    });
+
+    const audioOutput = modalities?.includes('audio') === true;
+
+    if (nordlysOptions.audio && !audioOutput) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'audio',
+        details:
+          "The audio provider option is ignored because modalities does not include 'audio'.",
+      });
+    }
+
+    return {
+      modalities: modalities?.length ? modalities : undefined,
+      audio: audioOutput ? nordlysOptions.audio : undefined,
+      warnings,
+    };
+  }
+
+  /**
+   * Merges model-level settings with call options.
+   *
+   * Precedence rules:
+   * - Sampling settings (temperature, maxOutputTokens, topP, topK, frequencyPenalty,
+   *   presencePenalty, stopSequences): the call-level value wins when it is defined,
+   *   otherwise the model-level value is used.
+   * - Provider options: model-level `providerOptions` are merged key by key with the
+   *   call-level `providerOptions.nordlys`, call-level keys taking precedence.
+   * - Reasoning: merged field by field, so a call-level `effort` keeps a model-level `summary`.
+   */
+  private mergeSettings(
+    options: LanguageModelV3CallOptions
+  ): NordlysMergedCallOptions {
+    const settings = this.settings ?? {};
+    const modelNordlysOptions = settings.providerOptions;
+    const callNordlysOptions = options.providerOptions?.nordlys as
+      | NordlysProviderOptions
+      | undefined;
+
+    const mergedReasoning = this.mergeReasoningOptions(
+      modelNordlysOptions?.reasoning,
+      callNordlysOptions?.reasoning
+    );
+
+    const mergedNordlysOptions =
+      modelNordlysOptions || callNordlysOptions
+        ? {
+            ...(modelNordlysOptions || {}),
+            ...(callNordlysOptions || {}),
+            ...(mergedReasoning ? { reasoning: mergedReasoning } : {}),
+          }
+        : undefined;
+
+    return {
+      ...options,
+      temperature: options.temperature ?? settings.temperature,
+      maxOutputTokens: options.maxOutputTokens ?? settings.maxOutputTokens,
+      topP: options.topP ?? settings.topP,
+      topK: options.topK ?? settings.topK,
+      frequencyPenalty: options.frequencyPenalty ?? settings.frequencyPenalty,
+      presencePenalty: options.presencePenalty ?? settings.presencePenalty,
+      stopSequences: options.stopSequences ?? settings.stopSequences,
+      providerOptions: mergedNordlysOptions
+        ? { ...options.providerOptions, nordlys: mergedNordlysOptions }
+        : options.providerOptions,
+    };
+  }
+
   /**
    * Prepares arguments for API requests by merging model settings with call options.
    */
-  private async getArgs({
-    maxOutputTokens,
-    temperature,
-    topP,
-    prompt,
-    providerOptions,
-    tools,
-    toolChoice,
-  }: LanguageModelV3CallOptions): Promise<{
+  private async getArgs(options: LanguageModelV3CallOptions): Promise<{
     args: NordlysResponseRequest;
     warnings: SharedV3Warning[];
     store: boolean;
+    toolNameMapping: ToolNameMapping;
+    background: NordlysBackgroundPolling | undefined;
+    streamMaxReconnects: number;
   }> {
     const warnings: SharedV3Warning[] = [];
 
-    // Merge model-level settings with call-level options
-    const mergedReasoning = this.mergeReasoningOptions(
-      this.settings?.providerOptions?.reasoning,
-      providerOptions?.reasoning
-    );
+    const {
+      maxOutputTokens,
+      temperature,
+      topP,
+      topK,
+      stopSequences,
+      seed,
+      presencePenalty,
+      frequencyPenalty,
+      prompt,
+      providerOptions,
+      responseFormat,
+      tools,
+      toolChoice,
+    } = this.mergeSettings(options);
 
-    const mergedProviderOptions = {
-      ...(this.settings?.providerOptions || {}),
-      ...(providerOptions || {}),
-      ...(mergedReasoning ? { reasoning: mergedReasoning } : {}),
-    };
+    const finalNordlysOptions =
+      (await parseProviderOptions({
+        provider: 'nordlys',
+        providerOptions,
+        schema: nordlysProviderOptions,
+      })) || {};
 
-    const nordlysOptions = await parseProviderOptions({
-      provider: 'nordlys',
-      providerOptions: mergedProviderOptions,
-      schema: nordlysProviderOptions,
-    });
+    if (topK != null) {
+      warnings.push({ type: 'unsupported', feature: 'topK' });
+    }
+
+    if (finalNordlysOptions.n !== undefined) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'n',
+        details: 'The Responses API always generates a single response.',
+      });
+    }
 
-    // Ensure nordlysOptions exists and restore reasoning if it was stripped by parseProviderOptions
-    const finalNordlysOptions = nordlysOptions || {};
-    if (mergedReasoning && !finalNordlysOptions.reasoning) {
-      finalNordlysOptions.reasoning = mergedReasoning;
+    if (finalNordlysOptions.stream !== undefined) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'stream',
+        details:
+          'Streaming is determined by the method that is called (doGenerate or doStream).',
+      });
     }
 
     const {
       input,
       instructions,
       warnings: inputWarnings,
-    } = convertToNordlysResponseInput({ prompt });
+    } = convertToNordlysResponseInput({
+      prompt,
+      previousResponseId: finalNordlysOptions.previous_response_id,
+      store: finalNordlysOptions.store !== false,
+    });
 
     warnings.push(...inputWarnings);
 
@@ -441,14 +968,103 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
 
     warnings.push(...toolWarnings);
 
+    const requestTools = this.applyWebSearchOptions(
+      nordlysTools,
+      finalNordlysOptions.web_search_options
+    );
+
+    // Maps provider tool names in the response to the names the tools were registered with
+    const toolNameMapping = createToolNameMapping({
+      tools,
+      providerToolNames: {
+        'nordlys.web_search': 'web_search',
+        'nordlys.file_search': 'file_search',
+        'nordlys.image_generation': 'image_generation',
+      },
+    });
+
+    const { text, warnings: textWarnings } = this.buildTextConfig(
+      responseFormat,
+      finalNordlysOptions
+    );
+
+    warnings.push(...textWarnings);
+
+    const {
+      modalities,
+      audio,
+      warnings: modalityWarnings,
+    } = this.buildOutputModalities(finalNordlysOptions);
+
+    warnings.push(...modalityWarnings);
+
+    const { routing, routingWarnings } = prepareRouting({
+      routing: finalNordlysOptions.routing,
+      prompt,
+      tools,
+      responseFormat,
+    });
+
+    warnings.push(...routingWarnings);
+
+    const modelId = finalNordlysOptions.model ?? this.modelId;
+
+    warnings.push(
+      ...getModelCapabilityWarnings({
+        modelId,
+        capabilities: getModelCapabilities(modelId),
+        prompt,
+        tools,
+        responseFormat,
+        reasoning:
+          this.buildReasoningConfig(finalNordlysOptions.reasoning) != null,
+        audioOutput: modalities?.includes('audio') === true,
+      })
+    );
+
+    // Without stored responses, reasoning items can only be replayed in later
+    // turns when their encrypted content is returned
+    const include = [...(finalNordlysOptions.include ?? [])];
+    if (
+      finalNordlysOptions.store === false &&
+      !include.includes('reasoning.encrypted_content')
+    ) {
+      include.push('reasoning.encrypted_content');
+    }
+
+    // Logprobs are only returned for output text when explicitly included
+    if (
+      (finalNordlysOptions.logprobs ||
+        finalNordlysOptions.top_logprobs != null) &&
+      !include.includes('message.output_text.logprobs')
+    ) {
+      include.push('message.output_text.logprobs');
+    }
+
+    const prediction = this.convertPredictionOption(
+      finalNordlysOptions.prediction
+    );
+
+    // The call-level seed takes precedence over the seed provider option
+    const resolvedSeed = seed ?? finalNordlysOptions.seed;
+
     const args: NordlysResponseRequest = {
       input,
-      model: this.modelId,
+      model: modelId,
       instructions,
-      max_output_tokens: maxOutputTokens,
+      max_output_tokens:
+        maxOutputTokens ?? finalNordlysOptions.max_completion_tokens,
       temperature,
       top_p: topP,
-      tools: nordlysTools,
+      ...(stopSequences?.length && { stop: stopSequences }),
+      ...(resolvedSeed !== undefined && { seed: resolvedSeed }),
+      ...(presencePenalty !== undefined && {
+        presence_penalty: presencePenalty,
+      }),
+      ...(frequencyPenalty !== undefined && {
+        frequency_penalty: frequencyPenalty,
+      }),
+      tools: requestTools,
       tool_choice: nordlysToolChoice,
       ...(finalNordlysOptions.user && { user: finalNordlysOptions.user }),
       ...(finalNordlysOptions.metadata && {
@@ -472,17 +1088,192 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
       ...(finalNordlysOptions.max_tool_calls !== undefined && {
         max_tool_calls: finalNordlysOptions.max_tool_calls,
       }),
+      ...(finalNordlysOptions.logit_bias && {
+        logit_bias: finalNordlysOptions.logit_bias,
+      }),
+      ...(audio && { audio }),
+      ...(finalNordlysOptions.top_logprobs !== undefined && {
+        top_logprobs: finalNordlysOptions.top_logprobs,
+      }),
+      ...(modalities && { modalities }),
+      ...(prediction && { prediction }),
+      ...(include.length > 0 && { include }),
+      ...(finalNordlysOptions.previous_response_id && {
+        previous_response_id: finalNordlysOptions.previous_response_id,
+      }),
+      ...(finalNordlysOptions.truncation && {
+        truncation: finalNordlysOptions.truncation,
+      }),
+      ...(text && { text }),
+      ...(finalNordlysOptions.background !== undefined && {
+        background: finalNordlysOptions.background,
+      }),
+      ...(routing && { routing }),
     };
 
     const store = finalNordlysOptions.store ?? true;
 
+    const background = finalNordlysOptions.background
+      ? {
+          pollIntervalMs:
+            finalNordlysOptions.background_poll_interval_ms ?? 1000,
+          timeoutMs:
+            finalNordlysOptions.background_timeout_ms ?? 30 * 60 * 1000,
+        }
+      : undefined;
+
     return {
       args,
       warnings,
       store,
+      toolNameMapping,
+      background,
+      streamMaxReconnects: finalNordlysOptions.stream_max_reconnects ?? 3,
     };
   }
 
+  /**
+   * Polls a background response until it leaves the `queued`/`in_progress` status.
+   * The response is cancelled when polling fails, including when the call is
+   * aborted or the timeout is exceeded.
+   */
+  private async waitForBackgroundResponse({
+    submitted,
+    body,
+    background,
+    options,
+  }: {
+    submitted: NordlysResponseResult;
+    body: NordlysResponseRequest;
+    background: NordlysBackgroundPolling;
+    options: LanguageModelV3CallOptions;
+  }): Promise<NordlysResponseResult> {
+    const responseId = submitted.value.id;
+    const url = `${this.config.baseURL}/responses/${encodeURIComponent(responseId)}`;
+    const deadline = Date.now() + background.timeoutMs;
+
+    let result = submitted;
+
+    try {
+      while (
+        result.value.status === RESPONSE_STATUS.QUEUED ||
+        result.value.status === RESPONSE_STATUS.IN_PROGRESS
+      ) {
+        if (Date.now() >= deadline) {
+          throw new NordlysResponseTimeoutError({
+            message: `Response ${responseId} did not complete within ${background.timeoutMs}ms`,
+            url,
+            requestBodyValues: body,
+            responseHeaders: result.responseHeaders,
+          });
+        }
+
+        await delay(background.pollIntervalMs, {
+          abortSignal: options.abortSignal,
+        });
+
+        result = await withNordlysRetry(
+          () =>
+            getFromApi({
+              url,
+              headers: combineHeaders(this.config.headers(), options.headers),
+              failedResponseHandler: nordlysFailedResponseHandler,
+              successfulResponseHandler: createJsonResponseHandler(
+                nordlysResponseSchema
+              ),
+              abortSignal: options.abortSignal,
+              fetch: this.config.fetch,
+            }),
+          { retry: this.config.retry, abortSignal: options.abortSignal }
+        );
+      }
+    } catch (error) {
+      // the caller gets no response, so the job must not keep running
+      await this.cancelBackgroundResponse(url, options.headers);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Cancels a background response. Failures are ignored because the caller
+   * is already reporting the error that led to the cancellation.
+   */
+  private async cancelBackgroundResponse(
+    responseUrl: string,
+    headers: LanguageModelV3CallOptions['headers']
+  ): Promise<void> {
+    try {
+      await postJsonToApi({
+        url: `${responseUrl}/cancel`,
+        headers: combineHeaders(this.config.headers(), headers),
+        body: {},
+        failedResponseHandler: nordlysFailedResponseHandler,
+        successfulResponseHandler: createJsonResponseHandler(z.unknown()),
+        fetch: this.config.fetch,
+      });
+    } catch {
+      // best effort
+    }
+  }
+
+  /**
+   * Sends the request with the configured model and then with each of the
+   * `fallbackModels` while the request fails with a retryable error, which
+   * includes routing errors. Attempts are returned for
+   * `providerMetadata.nordlys.attempts` when fallback models are configured.
+   */
+  private async withModelFallback<T>(
+    body: NordlysResponseRequest,
+    abortSignal: AbortSignal | undefined,
+    send: (body: NordlysResponseRequest) => Promise<T>
+  ): Promise<{
+    result: T;
+    body: NordlysResponseRequest;
+    attempts: JSONObject[] | undefined;
+  }> {
+    const fallbackModels = this.settings?.fallbackModels ?? [];
+    const models = [body.model, ...fallbackModels];
+    const attempts: JSONObject[] = [];
+
+    for (let index = 0; ; index++) {
+      const attemptBody = { ...body, model: models[index] };
+
+      try {
+        const result = await send(attemptBody);
+        attempts.push({ model: attemptBody.model });
+        return {
+          result,
+          body: attemptBody,
+          attempts: fallbackModels.length > 0 ? attempts : undefined,
+        };
+      } catch (error) {
+        if (
+          index >= models.length - 1 ||
+          abortSignal?.aborted ||
+          !APICallError.isInstance(error) ||
+          !error.isRetryable
+        ) {
+          throw error;
+        }
+
+        attempts.push({
+          model: attemptBody.model,
+          error: {
+            name: error.name,
+            message: error.message,
+            ...(error.statusCode != null && { statusCode: error.statusCode }),
+            ...(error instanceof NordlysAPIError &&
+              error.type != null && { type: error.type }),
+            ...(error instanceof NordlysAPIError &&
+              error.code != null && { code: error.code }),
+          },
+        });
+      }
+    }
+  }
+
   /**
    * Generates a completion for the given prompt.
    * @param options - Call options including prompt, temperature, max tokens, etc.
@@ -491,35 +1282,54 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
   async doGenerate(
     options: LanguageModelV3CallOptions
   ): Promise<LanguageModelV3GenerateResult> {
-    const { args: body, warnings } = await this.getArgs(options);
+    const { args, warnings, toolNameMapping, background } =
+      await this.getArgs(options);
+    const imageOutputFormat = getImageGenerationOutputFormat(args.tools);
+    const audioOutputFormat = args.audio?.format;
 
     const {
-      responseHeaders,
-      value: response,
-      rawValue: rawResponse,
-    } = await postJsonToApi({
-      url: `${this.config.baseURL}/responses`,
-      headers: combineHeaders(this.config.headers(), options.headers),
+      result: { responseHeaders, value: response, rawValue: rawResponse },
       body,
-      failedResponseHandler: nordlysFailedResponseHandler,
-      successfulResponseHandler: createJsonResponseHandler(
-        nordlysResponseSchema
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
-    });
+      attempts,
+    } = await this.withModelFallback(
+      args,
+      options.abortSignal,
+      async (body) => {
+        const submitted = await withNordlysRetry(
+          () =>
+            postJsonToApi({
+              url: `${this.config.baseURL}/responses`,
+              headers: combineHeaders(this.config.headers(), options.headers),
+              body,
+              failedResponseHandler: nordlysFailedResponseHandler,
+              successfulResponseHandler: createJsonResponseHandler(
+                nordlysResponseSchema
+              ),
+              abortSignal: options.abortSignal,
+              fetch: this.config.fetch,
+            }),
+          { retry: this.config.retry, abortSignal: options.abortSignal }
+        );
 
-    if (response.error) {
-      throw new APICallError({
-        message: response.error.message,
-        url: `${this.config.baseURL}/responses`,
-        requestBodyValues: body,
-        statusCode: 400,
-        responseHeaders,
-        responseBody: rawResponse as string,
-        isRetryable: false,
-      });
-    }
+        // Background responses are returned while queued or in progress
+        const result = background
+          ? await this.waitForBackgroundResponse({
+              submitted,
+              body,
+              background,
+              options,
+            })
+          : submitted;
+
+        throwIfResponseFailed({
+          result,
+          url: `${this.config.baseURL}/responses`,
+          body,
+        });
+
+        return result;
+      }
+    );
 
     if (!response.output) {
       throw new APICallError({
@@ -538,6 +1348,9 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
     // flag that checks if there have been client-side tool calls (not executed by provider)
     let hasFunctionCall = false;
 
+    // logprobs of each output text part, in output order
+    const textLogprobs: JSONObject[][] = [];
+
     // map response content to content array (defined when there is no error)
     // Type assertion is safe here because we validate the response schema
     for (const part of response.output as Array<
@@ -550,9 +1363,20 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
       | {
           type: 'message';
           id: string;
-          content: Array<{ text: string; type: string }>;
+          content: Array<
+            | {
+                text: string;
+                type: 'output_text' | 'refusal';
+                annotations?: NordlysResponseOutputTextAnnotation[];
+                logprobs?: NordlysResponseOutputTextLogprob[];
+              }
+            | NordlysResponseOutputAudio
+          >;
         }
       | { type: 'function_call'; id: string; name: string; arguments: string }
+      | NordlysResponseFunctionWebSearch
+      | NordlysResponseFileSearchToolCall
+      | NordlysResponseImageGenerationCall
     >) {
       switch (part.type) {
         case 'reasoning': {
@@ -577,11 +1401,39 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
           break;
         }
 
-        case 'message': {
-          for (const contentPart of part.content) {
-            const providerMetadata: SharedV3ProviderMetadata[string] = {
-              itemId: part.id,
-            };
+        case 'message': {
+          for (const contentPart of part.content) {
+            const providerMetadata: SharedV3ProviderMetadata[string] = {
+              itemId: part.id,
+            };
+
+            if (contentPart.type === 'output_audio') {
+              content.push({
+                type: 'file',
+                mediaType: getAudioMediaType(
+                  contentPart.format ?? audioOutputFormat
+                ),
+                data: contentPart.data,
+                providerMetadata: { nordlys: providerMetadata },
+              });
+
+              if (contentPart.transcript) {
+                content.push({
+                  type: 'text',
+                  text: contentPart.transcript,
+                  providerMetadata: {
+                    nordlys: { ...providerMetadata, audioTranscript: true },
+                  },
+                });
+              }
+              continue;
+            }
+
+            if (contentPart.logprobs?.length) {
+              const logprobs = mapNordlysLogprobs(contentPart.logprobs);
+              providerMetadata.logprobs = logprobs;
+              textLogprobs.push(logprobs);
+            }
 
             content.push({
               type: 'text',
@@ -590,6 +1442,16 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
                 nordlys: providerMetadata,
               },
             });
+
+            for (const annotation of contentPart.annotations ?? []) {
+              const source = mapNordlysAnnotation({
+                annotation,
+                generateId: this.generateId,
+              });
+              if (source) {
+                content.push(source);
+              }
+            }
           }
 
           break;
@@ -611,6 +1473,77 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
           });
           break;
         }
+
+        case 'web_search_call': {
+          const toolName = toolNameMapping.toCustomToolName('web_search');
+
+          content.push({
+            type: 'tool-call',
+            toolCallId: part.id,
+            toolName,
+            input: '{}',
+            providerExecuted: true,
+          });
+
+          content.push({
+            type: 'tool-result',
+            toolCallId: part.id,
+            toolName,
+            result: mapWebSearchCallResult(part),
+          });
+          break;
+        }
+
+        case 'file_search_call': {
+          const toolName = toolNameMapping.toCustomToolName('file_search');
+
+          content.push({
+            type: 'tool-call',
+            toolCallId: part.id,
+            toolName,
+            input: '{}',
+            providerExecuted: true,
+          });
+
+          content.push({
+            type: 'tool-result',
+            toolCallId: part.id,
+            toolName,
+            result: mapFileSearchCallResult(part),
+          });
+          break;
+        }
+
+        case 'image_generation_call': {
+          const toolName = toolNameMapping.toCustomToolName('image_generation');
+
+          content.push({
+            type: 'tool-call',
+            toolCallId: part.id,
+            toolName,
+            input: '{}',
+            providerExecuted: true,
+          });
+
+          content.push({
+            type: 'tool-result',
+            toolCallId: part.id,
+            toolName,
+            result: mapImageGenerationCallResult(part),
+          });
+
+          if (part.result != null) {
+            content.push({
+              type: 'file',
+              mediaType: getImageMediaType(
+                part.output_format ?? imageOutputFormat
+              ),
+              data: part.result,
+              providerMetadata: { nordlys: { itemId: part.id } },
+            });
+          }
+          break;
+        }
       }
     }
 
@@ -622,6 +1555,32 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
       providerMetadata.nordlys.serviceTier = response.service_tier;
     }
 
+    const rateLimits = parseNordlysRateLimits(responseHeaders);
+    if (rateLimits) {
+      providerMetadata.nordlys.rateLimits = rateLimits;
+    }
+
+    if (textLogprobs.length > 0) {
+      providerMetadata.nordlys.logprobs = textLogprobs;
+    }
+
+    const routingState: NordlysRoutingState = {
+      model: response.model,
+      provider: response.provider,
+      itemModels: {},
+    };
+    for (const item of response.output) {
+      recordNordlysItemModel(routingState, item);
+    }
+    const routing = getNordlysRoutingMetadata(routingState);
+    if (routing) {
+      providerMetadata.nordlys.routing = routing;
+    }
+
+    if (attempts) {
+      providerMetadata.nordlys.attempts = attempts;
+    }
+
     if (!response.usage) {
       throw new APICallError({
         message: 'Response missing usage',
@@ -640,16 +1599,11 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
       content,
       finishReason: {
         unified: mapNordlysFinishReason({
-          finishReason:
-            response.status === RESPONSE_STATUS.INCOMPLETE
-              ? 'max_output_tokens'
-              : null,
+          finishReason: response.incomplete_details?.reason,
+          status: response.status,
           hasFunctionCall,
         }),
-        raw:
-          response.status === RESPONSE_STATUS.INCOMPLETE
-            ? 'max_output_tokens'
-            : undefined,
+        raw: response.incomplete_details?.reason ?? undefined,
       },
       usage: convertNordlysResponsesUsage(usage),
       request: { body },
@@ -673,24 +1627,70 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
   async doStream(
     options: LanguageModelV3CallOptions
   ): Promise<LanguageModelV3StreamResult> {
-    const { args: body, warnings, store } = await this.getArgs(options);
-
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url: `${this.config.baseURL}/responses`,
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: {
-        ...body,
-        stream: true,
-        stream_options: { include_usage: true },
-      },
-      failedResponseHandler: nordlysFailedResponseHandler,
-      successfulResponseHandler: createEventSourceResponseHandler(
-        nordlysResponseStreamEventSchema
-      ),
+    const {
+      args,
+      warnings,
+      store,
+      toolNameMapping,
+      background,
+      streamMaxReconnects,
+    } = await this.getArgs(options);
+    const imageOutputFormat = getImageGenerationOutputFormat(args.tools);
+    const audioOutputFormat = args.audio?.format;
+
+    const self = this;
+
+    // Only the initial request is retried or falls back to other models: once
+    // the event stream has been returned, errors are emitted as stream parts
+    // instead of re-sending. Dropped connections of stored or background
+    // responses are resumed.
+    const {
+      result: { responseHeaders, value: eventStream },
+      body,
+      attempts,
+    } = await this.withModelFallback(args, options.abortSignal, (body) =>
+      withNordlysRetry(
+        () =>
+          postJsonToApi({
+            url: `${this.config.baseURL}/responses`,
+            headers: combineHeaders(this.config.headers(), options.headers),
+            body: {
+              ...body,
+              stream: true,
+              stream_options: { include_usage: true },
+            },
+            failedResponseHandler: nordlysFailedResponseHandler,
+            successfulResponseHandler: createEventSourceResponseHandler(
+              nordlysResponseStreamEventSchema
+            ),
+            abortSignal: options.abortSignal,
+            fetch: this.config.fetch,
+          }),
+        { retry: this.config.retry, abortSignal: options.abortSignal }
+      )
+    );
+
+    const response = createResumableEventStream({
+      stream: eventStream,
+      maxReconnects: store || background ? streamMaxReconnects : 0,
       abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
+      resume: async ({ responseId, startingAfter }) => {
+        const { value } = await getFromApi({
+          url: `${this.config.baseURL}/responses/${encodeURIComponent(responseId)}?stream=true&starting_after=${startingAfter}`,
+          headers: combineHeaders(this.config.headers(), options.headers),
+          failedResponseHandler: nordlysFailedResponseHandler,
+          successfulResponseHandler: createEventSourceResponseHandler(
+            nordlysResponseStreamEventSchema
+          ),
+          abortSignal: options.abortSignal,
+          fetch: this.config.fetch,
+        });
+        return value;
+      },
     });
 
+    const rateLimits = parseNordlysRateLimits(responseHeaders);
+
     const providerKey = 'nordlys';
 
     let finishReason: LanguageModelV3FinishReason = {
@@ -727,19 +1727,81 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
 
     let serviceTier: string | undefined;
 
+    let streamReconnects = 0;
+
+    const routingState: NordlysRoutingState = { itemModels: {} };
+
+    // logprobs accumulated from text deltas, by message item id
+    const logprobsByItem: Record<string, NordlysResponseOutputTextLogprob[]> =
+      {};
+
+    // audio transcripts that have been started but not yet ended
+    const activeTranscripts = new Set<string>();
+
+    // image generation calls whose tool call was emitted with a partial image
+    const emittedImageToolCalls = new Set<string>();
+
+    // audio chunks by message item id, emitted as one file part on item done
+    const audioChunksByItem: Record<string, Uint8Array[]> = {};
+
+    const enqueueAudio = (
+      controller: TransformStreamDefaultController<LanguageModelV3StreamPart>,
+      itemId: string
+    ) => {
+      const chunks = audioChunksByItem[itemId];
+      if (!chunks) {
+        return;
+      }
+      delete audioChunksByItem[itemId];
+
+      const data = new Uint8Array(
+        chunks.reduce((length, chunk) => length + chunk.length, 0)
+      );
+      let offset = 0;
+      for (const chunk of chunks) {
+        data.set(chunk, offset);
+        offset += chunk.length;
+      }
+
+      controller.enqueue({
+        type: 'file',
+        mediaType: getAudioMediaType(audioOutputFormat),
+        data: convertUint8ArrayToBase64(data),
+        providerMetadata: { [providerKey]: { itemId } },
+      });
+    };
+
     const streamParseState = createStreamState();
 
     return {
       stream: response.pipeThrough(
         new TransformStream<
-          ParseResult<NordlysResponseStreamEventUnion>,
+          NordlysResumableStreamChunk<NordlysResponseStreamEventUnion>,
           LanguageModelV3StreamPart
         >({
           start(controller) {
             controller.enqueue({ type: 'stream-start', warnings });
           },
 
-          transform(chunk, controller) {
+          transform(part, controller) {
+            // marks where the stream continues after a reconnect
+            if (part.type === 'resumed') {
+              streamReconnects = part.reconnects;
+              if (options.includeRawChunks) {
+                controller.enqueue({
+                  type: 'raw',
+                  rawValue: {
+                    type: 'nordlys.stream.resumed',
+                    response_id: part.responseId,
+                    starting_after: part.startingAfter,
+                  },
+                });
+              }
+              return;
+            }
+
+            const chunk = part.event;
+
             if (options.includeRawChunks) {
               controller.enqueue({ type: 'raw', rawValue: chunk.rawValue });
             }
@@ -753,6 +1815,8 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
 
             const value = chunk.value;
 
+            recordNordlysItemModel(routingState, chunk.rawValue);
+
             if (isResponseOutputItemAddedChunk(value)) {
               // Track item type for later use in output_item.done
               const itemId = value.item.id;
@@ -771,6 +1835,20 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
                   id: value.item.call_id,
                   toolName: value.item.name,
                 });
+              } else if (value.item.type in providerToolNamesByItemType) {
+                controller.enqueue({
+                  type: 'tool-input-start',
+                  id: value.item.id,
+                  toolName: toolNameMapping.toCustomToolName(
+                    providerToolNamesByItemType[value.item.type]
+                  ),
+                  providerExecuted: true,
+                });
+
+                controller.enqueue({
+                  type: 'tool-input-end',
+                  id: value.item.id,
+                });
               } else if (value.item.type === 'message') {
                 const result = handleOutputItemAdded(value, streamParseState);
                 if (result.shouldEmitTextStart && result.textItemId) {
@@ -831,6 +1909,74 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
                     },
                   },
                 });
+              } else if (isWebSearchCallOutputItemDone(value)) {
+                const toolName = toolNameMapping.toCustomToolName('web_search');
+
+                controller.enqueue({
+                  type: 'tool-call',
+                  toolCallId: value.item.id,
+                  toolName,
+                  input: '{}',
+                  providerExecuted: true,
+                });
+
+                controller.enqueue({
+                  type: 'tool-result',
+                  toolCallId: value.item.id,
+                  toolName,
+                  result: mapWebSearchCallResult(value.item),
+                });
+              } else if (isFileSearchCallOutputItemDone(value)) {
+                const toolName =
+                  toolNameMapping.toCustomToolName('file_search');
+
+                controller.enqueue({
+                  type: 'tool-call',
+                  toolCallId: value.item.id,
+                  toolName,
+                  input: '{}',
+                  providerExecuted: true,
+                });
+
+                controller.enqueue({
+                  type: 'tool-result',
+                  toolCallId: value.item.id,
+                  toolName,
+                  result: mapFileSearchCallResult(value.item),
+                });
+              } else if (isImageGenerationCallOutputItemDone(value)) {
+                const toolName =
+                  toolNameMapping.toCustomToolName('image_generation');
+
+                if (!emittedImageToolCalls.has(value.item.id)) {
+                  controller.enqueue({
+                    type: 'tool-call',
+                    toolCallId: value.item.id,
+                    toolName,
+                    input: '{}',
+                    providerExecuted: true,
+                  });
+                }
+
+                controller.enqueue({
+                  type: 'tool-result',
+                  toolCallId: value.item.id,
+                  toolName,
+                  result: mapImageGenerationCallResult(value.item),
+                });
+
+                if (value.item.result != null) {
+                  controller.enqueue({
+                    type: 'file',
+                    mediaType: getImageMediaType(
+                      value.item.output_format ?? imageOutputFormat
+                    ),
+                    data: value.item.result,
+                    providerMetadata: {
+                      [providerKey]: { itemId: value.item.id },
+                    },
+                  });
+                }
               } else {
                 const itemId = value.item.id;
                 if (itemId) {
@@ -842,20 +1988,31 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
                   const itemType = itemTypes[itemId];
 
                   if (itemType === 'message') {
+                    const logprobs = logprobsByItem[itemId];
                     controller.enqueue({
                       type: 'text-end',
                       id: itemId,
                       providerMetadata: {
                         [providerKey]: {
                           itemId,
+                          ...(logprobs && {
+                            logprobs: mapNordlysLogprobs(logprobs),
+                          }),
                         },
                       },
                     });
                     streamParseState.activeTextItems.delete(itemId);
+                    enqueueAudio(controller, itemId);
                   } else if (itemType === 'reasoning') {
                     const activeReasoningPart = activeReasoning[itemId];
 
                     if (activeReasoningPart) {
+                      // the encrypted content is only complete on the done item
+                      const encryptedContent =
+                        (isReasoningOutputItemDone(value)
+                          ? value.item.encrypted_content
+                          : undefined) ?? activeReasoningPart.encryptedContent;
+
                       const summaryPartIndices = Object.entries(
                         activeReasoningPart.summaryParts
                       )
@@ -872,6 +2029,8 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
                           providerMetadata: {
                             [providerKey]: {
                               itemId,
+                              reasoningEncryptedContent:
+                                encryptedContent ?? null,
                             },
                           },
                         });
@@ -899,6 +2058,7 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
               // the API format.
             } else if (isResponseCreatedChunk(value)) {
               responseId = value.response.id;
+              routingState.model = value.response.model;
               controller.enqueue({
                 type: 'response-metadata',
                 id: value.response.id,
@@ -906,6 +2066,15 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
                 modelId: value.response.model,
               });
             } else if (isTextDeltaChunk(value)) {
+              if (value.logprobs?.length) {
+                const itemLogprobs = logprobsByItem[value.item_id];
+                if (itemLogprobs) {
+                  itemLogprobs.push(...value.logprobs);
+                } else {
+                  logprobsByItem[value.item_id] = [...value.logprobs];
+                }
+              }
+
               const { delta, itemId } = handleTextDelta(
                 value,
                 streamParseState
@@ -918,7 +2087,87 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
             } else if (value.type === 'response.output_text.done') {
               // This event signals completion of output text with full text content.
               // The streaming was already handled by delta events, so we don't need to emit
-              // any AI SDK events here. We just ensure the event is properly parsed.
+              // any AI SDK events here. Logprobs are taken from this event only when
+              // the deltas did not carry them.
+              if (value.logprobs?.length && !logprobsByItem[value.item_id]) {
+                logprobsByItem[value.item_id] = value.logprobs;
+              }
+            } else if (value.type === 'response.output_audio.delta') {
+              const chunk = convertBase64ToUint8Array(value.delta);
+              const itemChunks = audioChunksByItem[value.item_id];
+              if (itemChunks) {
+                itemChunks.push(chunk);
+              } else {
+                audioChunksByItem[value.item_id] = [chunk];
+              }
+            } else if (
+              value.type === 'response.output_audio_transcript.delta'
+            ) {
+              const transcriptId = `${value.item_id}:transcript`;
+              if (!activeTranscripts.has(transcriptId)) {
+                activeTranscripts.add(transcriptId);
+                controller.enqueue({
+                  type: 'text-start',
+                  id: transcriptId,
+                  providerMetadata: {
+                    [providerKey]: {
+                      itemId: value.item_id,
+                      audioTranscript: true,
+                    },
+                  },
+                });
+              }
+              controller.enqueue({
+                type: 'text-delta',
+                id: transcriptId,
+                delta: value.delta,
+              });
+            } else if (value.type === 'response.output_audio_transcript.done') {
+              const transcriptId = `${value.item_id}:transcript`;
+              if (activeTranscripts.delete(transcriptId)) {
+                controller.enqueue({ type: 'text-end', id: transcriptId });
+              }
+            } else if (
+              value.type === 'response.image_generation_call.partial_image'
+            ) {
+              // partial images are preliminary results of the tool call,
+              // only the final image is emitted as file content
+              const toolName =
+                toolNameMapping.toCustomToolName('image_generation');
+
+              if (!emittedImageToolCalls.has(value.item_id)) {
+                emittedImageToolCalls.add(value.item_id);
+                controller.enqueue({
+                  type: 'tool-call',
+                  toolCallId: value.item_id,
+                  toolName,
+                  input: '{}',
+                  providerExecuted: true,
+                });
+              }
+
+              controller.enqueue({
+                type: 'tool-result',
+                toolCallId: value.item_id,
+                toolName,
+                result: {
+                  status: 'generating',
+                  partialImageIndex: value.partial_image_index,
+                  partialImage: value.partial_image_b64,
+                  mediaType: getImageMediaType(
+                    value.output_format ?? imageOutputFormat
+                  ),
+                },
+                preliminary: true,
+              });
+            } else if (value.type === 'response.output_text.annotation.added') {
+              const source = mapNordlysAnnotation({
+                annotation: value.annotation,
+                generateId: self.generateId,
+              });
+              if (source) {
+                controller.enqueue(source);
+              }
             } else if (value.type === 'response.reasoning_text.delta') {
               const { delta, itemId } = handleReasoningDelta(
                 value,
@@ -1011,19 +2260,33 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
                 }
               }
             } else if (isResponseFinishedChunk(value)) {
-              finishReason = {
-                unified: mapNordlysFinishReason({
-                  finishReason:
-                    value.response.status === RESPONSE_STATUS.INCOMPLETE
-                      ? 'max_output_tokens'
-                      : null,
-                  hasFunctionCall,
-                }),
-                raw:
-                  value.response.status === RESPONSE_STATUS.INCOMPLETE
-                    ? 'max_output_tokens'
-                    : undefined,
-              };
+              const incompleteReason =
+                value.response.incomplete_details?.reason ?? undefined;
+
+              if (value.type === 'response.failed') {
+                finishReason = { unified: 'error', raw: incompleteReason };
+                controller.enqueue({
+                  type: 'error',
+                  error: createNordlysAPIError({
+                    message: value.response.error?.message ?? 'Response failed',
+                    url: `${self.config.baseURL}/responses`,
+                    requestBodyValues: body,
+                    responseHeaders,
+                    type: value.response.error?.type,
+                    code: value.response.error?.code,
+                    param: value.response.error?.param,
+                  }),
+                });
+              } else {
+                finishReason = {
+                  unified: mapNordlysFinishReason({
+                    finishReason: incompleteReason,
+                    status: value.response.status,
+                    hasFunctionCall,
+                  }),
+                  raw: incompleteReason,
+                };
+              }
               if (value.response.usage) {
                 usage = {
                   input_tokens: value.response.usage.input_tokens,
@@ -1037,6 +2300,10 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
               if (typeof value.response.service_tier === 'string') {
                 serviceTier = value.response.service_tier;
               }
+              routingState.model = value.response.model;
+              if (value.response.provider != null) {
+                routingState.provider = value.response.provider;
+              }
             } else if (value.type === 'response.content_part.added') {
               const result = handleContentPartAdded(value, streamParseState);
 
@@ -1091,17 +2358,40 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
               finishReason = { unified: 'error', raw: undefined };
               controller.enqueue({
                 type: 'error',
-                error: new Error(value.error.message),
+                error: createNordlysAPIError({
+                  message: value.error.message,
+                  url: `${self.config.baseURL}/responses`,
+                  requestBodyValues: body,
+                  responseHeaders,
+                  type: value.error.type,
+                  code: value.error.code,
+                  param: value.error.param,
+                }),
               });
               return;
             }
           },
 
           flush(controller) {
+            // audio of message items that never completed
+            for (const itemId of Object.keys(audioChunksByItem)) {
+              enqueueAudio(controller, itemId);
+            }
+
+            const routing = getNordlysRoutingMetadata(routingState);
             const providerMetadata: SharedV3ProviderMetadata = {
               [providerKey]: {
                 responseId,
                 ...(serviceTier !== undefined && { serviceTier }),
+                ...(rateLimits && { rateLimits }),
+                ...(streamReconnects > 0 && { streamReconnects }),
+                ...(routing && { routing }),
+                ...(attempts && { attempts }),
+                ...(Object.keys(logprobsByItem).length > 0 && {
+                  logprobs: Object.values(logprobsByItem).map((logprobs) =>
+                    mapNordlysLogprobs(logprobs)
+                  ),
+                }),
               },
             };
 
@@ -1120,6 +2410,141 @@ export class NordlysChatLanguageModel implements LanguageModelV3 {
   }
 }
 
+/**
+ * Throws the error of a response that failed or was cancelled.
+ */
+function throwIfResponseFailed({
+  result: { value: response, responseHeaders, rawValue },
+  url,
+  body,
+}: {
+  result: NordlysResponseResult;
+  url: string;
+  body: NordlysResponseRequest;
+}): void {
+  if (response.error) {
+    throw createNordlysAPIError({
+      message: response.error.message,
+      url,
+      requestBodyValues: body,
+      responseHeaders,
+      responseBody: JSON.stringify(rawValue),
+      type: response.error.type,
+      code: response.error.code,
+      param: response.error.param,
+    });
+  }
+
+  if (response.status === RESPONSE_STATUS.CANCELLED) {
+    throw new NordlysResponseCancelledError({
+      message: `Response ${response.id} was cancelled`,
+      url,
+      requestBodyValues: body,
+      responseHeaders,
+      responseBody: JSON.stringify(rawValue),
+    });
+  }
+
+  if (response.status === RESPONSE_STATUS.FAILED) {
+    throw createNordlysAPIError({
+      message: `Response ${response.id} failed`,
+      url,
+      requestBodyValues: body,
+      responseHeaders,
+      responseBody: JSON.stringify(rawValue),
+    });
+  }
+}
+
+/**
+ * Maps a web search call output item to the provider-executed tool result.
+ */
+function mapWebSearchCallResult(
+  item: Pick<NordlysResponseFunctionWebSearch, 'status' | 'action'>
+): JSONObject {
+  return {
+    status: item.status,
+    ...(item.action != null && { action: item.action }),
+  };
+}
+
+/**
+ * Output item types of provider-executed tools mapped to their provider tool names.
+ */
+const providerToolNamesByItemType: Record<string, string> = {
+  web_search_call: 'web_search',
+  file_search_call: 'file_search',
+  image_generation_call: 'image_generation',
+};
+
+/**
+ * Returns the output format requested for the image generation tool, if any.
+ */
+function getImageGenerationOutputFormat(
+  tools: NordlysToolUnion[] | undefined
+): string | undefined {
+  const tool = tools?.find((tool) => tool.type === 'image_generation');
+  return tool?.type === 'image_generation' ? tool.output_format : undefined;
+}
+
+/**
+ * Maps an audio output format to its media type. Audio defaults to wav.
+ */
+function getAudioMediaType(format: string | undefined): string {
+  switch (format) {
+    case undefined:
+    case 'wav':
+      return 'audio/wav';
+    case 'mp3':
+      return 'audio/mpeg';
+    case 'pcm':
+    case 'pcm16':
+      return 'audio/pcm';
+    default:
+      return `audio/${format}`;
+  }
+}
+
+/**
+ * Maps an image output format to its media type. Images default to png.
+ */
+function getImageMediaType(outputFormat: string | undefined): string {
+  return `image/${outputFormat ?? 'png'}`;
+}
+
+/**
+ * Maps an image generation call output item to the provider-executed tool result.
+ * The image data is returned as a separate file part.
+ */
+function mapImageGenerationCallResult(
+  item: Pick<NordlysResponseImageGenerationCall, 'status' | 'revised_prompt'>
+): JSONObject {
+  return {
+    status: item.status,
+    ...(item.revised_prompt != null && { revisedPrompt: item.revised_prompt }),
+  };
+}
+
+/**
+ * Maps a file search call output item to the provider-executed tool result.
+ * Results are null unless `file_search_call.results` is included.
+ */
+function mapFileSearchCallResult(
+  item: Pick<NordlysResponseFileSearchToolCall, 'queries' | 'results'>
+): JSONObject {
+  return {
+    queries: item.queries ?? [],
+    results:
+      item.results?.map((result) => ({
+        ...(result.attributes != null && { attributes: result.attributes }),
+        fileId: result.file_id,
+        filename: result.filename,
+        score: result.score,
+        text: result.text,
+      })) ?? null,
+  };
+}
+
 function isTextDeltaChunk(
   chunk: NordlysResponseStreamEventUnion
 ): chunk is NordlysResponseStreamEventUnion & {
@@ -1146,17 +2571,64 @@ function isFunctionCallOutputItemDone(
   return event.item.type === 'function_call';
 }
 
+/**
+ * Type guard for reasoning items in output_item.done events
+ */
+function isReasoningOutputItemDone(
+  event: NordlysResponseOutputItemDoneEvent
+): event is Extract<
+  NordlysResponseOutputItemDoneEvent,
+  { item: { type: 'reasoning' } }
+> {
+  return event.item.type === 'reasoning';
+}
+
+/**
+ * Type guard for web_search_call items in output_item.done events
+ */
+function isWebSearchCallOutputItemDone(
+  event: NordlysResponseOutputItemDoneEvent
+): event is Extract<
+  NordlysResponseOutputItemDoneEvent,
+  { item: { type: 'web_search_call' } }
+> {
+  return event.item.type === 'web_search_call';
+}
+
+/**
+ * Type guard for image_generation_call items in output_item.done events
+ */
+function isImageGenerationCallOutputItemDone(
+  event: NordlysResponseOutputItemDoneEvent
+): event is Extract<
+  NordlysResponseOutputItemDoneEvent,
+  { item: { type: 'image_generation_call' } }
+> {
+  return event.item.type === 'image_generation_call';
+}
+
+/**
+ * Type guard for file_search_call items in output_item.done events
+ */
+function isFileSearchCallOutputItemDone(
+  event: NordlysResponseOutputItemDoneEvent
+): event is Extract<
+  NordlysResponseOutputItemDoneEvent,
+  { item: { type: 'file_search_call' } }
+> {
+  return event.item.type === 'file_search_call';
+}
+
 function isResponseFinishedChunk(
   chunk: NordlysResponseStreamEventUnion
 ): chunk is NordlysResponseStreamEventUnion & {
-  type: 'response.completed';
-  response: {
-    usage?: NordlysResponsesUsage;
-    service_tier?: string;
-    status: string;
-  };
+  type: 'response.completed' | 'response.incomplete' | 'response.failed';
 } {
-  return chunk.type === 'response.completed';
+  return (
+    chunk.type === 'response.completed' ||
+    chunk.type === 'response.incomplete' ||
+    chunk.type === 'response.failed'
+  );
 }
 
 function isResponseCreatedChunk(
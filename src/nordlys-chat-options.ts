@@ -1,6 +1,18 @@
 // Nordlys chat model options/types
 
 import { z } from 'zod/v4';
+import type { NordlysChatModelId } from './nordlys-models';
+
+/**
+ * Capabilities of the underlying models that routing preferences can refer to.
+ */
+export const nordlysModelCapability = z.enum([
+  'vision',
+  'audio',
+  'tools',
+  'reasoning',
+  'structured_outputs',
+]);
 
 /**
  * Provider options for Nordlys chat models.
@@ -27,7 +39,7 @@ export const nordlysProviderOptions = z.object({
    */
   user: z.string().optional(),
   /**
-   * Audio parameter for chat completion.
+   * Audio output settings. Only sent when `modalities` includes 'audio'.
    */
   audio: z
     .object({
@@ -36,7 +48,8 @@ export const nordlysProviderOptions = z.object({
     })
     .optional(),
   /**
-   * Whether to return log probabilities of the output tokens.
+   * Whether to return log probabilities of the output tokens. Requested by
+   * including `message.output_text.logprobs`.
    */
   logprobs: z.boolean().optional(),
   /**
@@ -48,7 +61,7 @@ export const nordlysProviderOptions = z.object({
    */
   metadata: z.record(z.string(), z.string()).optional(),
   /**
-   * Modalities for the request.
+   * Output modalities of the response, 'text' and/or 'audio'.
    */
   modalities: z.array(z.string()).optional(),
   /**
@@ -119,14 +132,15 @@ export const nordlysProviderOptions = z.object({
    */
   top_logprobs: z.number().optional(),
   /**
-   * Web search options.
+   * Web search options. Sent as a `web_search` tool; the settings of a web
+   * search tool passed with the call take precedence.
    */
   web_search_options: z
     .object({
-      search_context_size: z.string().optional(),
+      search_context_size: z.enum(['low', 'medium', 'high']).optional(),
       user_location: z
         .object({
-          type: z.string().optional(),
+          type: z.literal('approximate').optional(),
           approximate: z
             .object({
               city: z.string().optional(),
@@ -164,6 +178,73 @@ export const nordlysProviderOptions = z.object({
    * 'disabled': If input will exceed context window, fail with 400 error.
    */
   truncation: z.enum(['auto', 'disabled']).optional(),
+  /**
+   * The id of a previous response to continue the conversation from,
+   * e.g. `providerMetadata.nordlys.responseId` of the last step.
+   * Only the messages after the last assistant turn are sent.
+   */
+  previous_response_id: z.string().optional(),
+  /**
+   * Run the response in background mode. `doGenerate` submits the request and
+   * polls until the response reaches a terminal status, so long-running jobs
+   * are not bound to a single HTTP request. Aborting the call cancels the response.
+   */
+  background: z.boolean().optional(),
+  /**
+   * Interval between status polls of a background response in milliseconds. Defaults to 1000.
+   */
+  background_poll_interval_ms: z.number().int().positive().optional(),
+  /**
+   * Maximum time to wait for a background response in milliseconds before it is
+   * cancelled. Defaults to 30 minutes.
+   */
+  background_timeout_ms: z.number().int().positive().optional(),
+  /**
+   * Maximum number of times a dropped stream is resumed after the last received
+   * event. Only stored and background responses can be resumed. Defaults to 3.
+   */
+  stream_max_reconnects: z.number().int().nonnegative().optional(),
+  /**
+   * Routing preferences that steer which underlying models and providers
+   * serve the request.
+   */
+  routing: z
+    .object({
+      /**
+       * What the router should prioritize when choosing a model.
+       */
+      optimize_for: z.enum(['cost', 'latency', 'quality']).optional(),
+      /**
+       * Maximum blended price in USD per million tokens.
+       */
+      max_price_per_million_tokens: z.number().positive().optional(),
+      /**
+       * Only route to these underlying models.
+       */
+      allowed_models: z.array(z.string()).optional(),
+      /**
+       * Never route to these underlying models.
+       */
+      excluded_models: z.array(z.string()).optional(),
+      /**
+       * Only route to these upstream providers.
+       */
+      allowed_providers: z.array(z.string()).optional(),
+      /**
+       * Never route to these upstream providers.
+       */
+      excluded_providers: z.array(z.string()).optional(),
+      /**
+       * Capabilities the serving model must support.
+       */
+      required_capabilities: z.array(nordlysModelCapability).optional(),
+      /**
+       * Capabilities the request does not need, so the router may choose
+       * models without them, e.g. cheaper text-only models.
+       */
+      excluded_capabilities: z.array(nordlysModelCapability).optional(),
+    })
+    .optional(),
 });
 
 /**
@@ -171,9 +252,18 @@ export const nordlysProviderOptions = z.object({
  */
 export type NordlysProviderOptions = z.infer<typeof nordlysProviderOptions>;
 
+/**
+ * Routing preferences of the `routing` provider option.
+ */
+export type NordlysRoutingPreferences = NonNullable<
+  NordlysProviderOptions['routing']
+>;
+
 /**
  * Settings that can be set at model creation time.
- * These settings will be merged with call-level options, with call-level taking precedence.
+ * They act as defaults for every call: a call-level value always takes precedence
+ * over the model-level value. `providerOptions` are merged key by key with the
+ * call's `providerOptions.nordlys`, and `reasoning` is merged field by field.
  */
 export interface NordlysChatSettings {
   /**
@@ -208,4 +298,9 @@ export interface NordlysChatSettings {
    * Provider-specific options.
    */
   providerOptions?: NordlysProviderOptions;
+  /**
+   * Models to try in order when a request fails with a retryable or routing error.
+   * Streams only fall back before the stream is returned, never once content was emitted.
+   */
+  fallbackModels?: NordlysChatModelId[];
 }
@@ -0,0 +1,144 @@
+import { TooManyEmbeddingValuesForCallError } from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import { NordlysEmbeddingModel } from './nordlys-embedding-model';
+
+const createJsonFetch = (body: unknown) =>
+  vi.fn<typeof fetch>().mockResolvedValue(
+    new Response(JSON.stringify(body), {
+      headers: { 'content-type': 'application/json' },
+    })
+  );
+
+const createModel = (
+  mockFetch: typeof fetch,
+  settings?: ConstructorParameters<typeof NordlysEmbeddingModel>[1]
+) =>
+  new NordlysEmbeddingModel('nordlys/embed', settings, {
+    provider: 'nordlys.embedding',
+    baseURL: 'https://example.com',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: mockFetch,
+  });
+
+const embeddingResponse = {
+  object: 'list',
+  model: 'nordlys/embed',
+  data: [
+    { object: 'embedding', index: 0, embedding: [0.1, 0.2] },
+    { object: 'embedding', index: 1, embedding: [0.3, 0.4] },
+  ],
+  usage: { prompt_tokens: 8, total_tokens: 8 },
+};
+
+describe('NordlysEmbeddingModel', () => {
+  it('should send values to the embeddings endpoint', async () => {
+    const mockFetch = createJsonFetch(embeddingResponse);
+
+    await createModel(mockFetch).doEmbed({ values: ['hello', 'world'] });
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/embeddings');
+    expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+      model: 'nordlys/embed',
+      input: ['hello', 'world'],
+      encoding_format: 'float',
+    });
+  });
+
+  it('should return embeddings, usage and response details', async () => {
+    const mockFetch = createJsonFetch(embeddingResponse);
+
+    const result = await createModel(mockFetch).doEmbed({
+      values: ['hello', 'world'],
+    });
+
+    expect(result.embeddings).toEqual([
+      [0.1, 0.2],
+      [0.3, 0.4],
+    ]);
+    expect(result.usage).toEqual({ tokens: 8 });
+    expect(result.response?.body).toEqual(embeddingResponse);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should restore input order from the response index', async () => {
+    const mockFetch = createJsonFetch({
+      ...embeddingResponse,
+      data: [...embeddingResponse.data].reverse(),
+    });
+
+    const result = await createModel(mockFetch).doEmbed({
+      values: ['hello', 'world'],
+    });
+
+    expect(result.embeddings).toEqual([
+      [0.1, 0.2],
+      [0.3, 0.4],
+    ]);
+  });
+
+  it('should forward provider options', async () => {
+    const mockFetch = createJsonFetch(embeddingResponse);
+
+    await createModel(mockFetch).doEmbed({
+      values: ['hello', 'world'],
+      providerOptions: {
+        nordlys: { dimensions: 256, encoding_format: 'base64', user: 'u-1' },
+      },
+    });
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+      model: 'nordlys/embed',
+      input: ['hello', 'world'],
+      dimensions: 256,
+      encoding_format: 'base64',
+      user: 'u-1',
+    });
+  });
+
+  it('should decode base64 embeddings', async () => {
+    const floats = new Float32Array([0.5, -1, 2]);
+    const base64 = Buffer.from(floats.buffer).toString('base64');
+    const mockFetch = createJsonFetch({
+      data: [{ index: 0, embedding: base64 }],
+    });
+
+    const result = await createModel(mockFetch).doEmbed({
+      values: ['hello'],
+      providerOptions: { nordlys: { encoding_format: 'base64' } },
+    });
+
+    expect(result.embeddings).toEqual([[0.5, -1, 2]]);
+    expect(result.usage).toBeUndefined();
+  });
+
+  it('should pass headers to the request', async () => {
+    const mockFetch = createJsonFetch(embeddingResponse);
+
+    await createModel(mockFetch).doEmbed({
+      values: ['hello'],
+      headers: { 'X-Custom': 'value' },
+    });
+
+    expect(mockFetch.mock.calls[0][1]?.headers).toMatchObject({
+      authorization: 'Bearer test-key',
+      'x-custom': 'value',
+    });
+  });
+
+  it('should throw when too many values are passed', async () => {
+    const mockFetch = createJsonFetch(embeddingResponse);
+
+    await expect(
+      createModel(mockFetch, { maxEmbeddingsPerCall: 1 }).doEmbed({
+        values: ['hello', 'world'],
+      })
+    ).rejects.toThrow(TooManyEmbeddingValuesForCallError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should use default batching settings', () => {
+    const model = createModel(createJsonFetch(embeddingResponse));
+    expect(model.maxEmbeddingsPerCall).toBe(2048);
+    expect(model.supportsParallelCalls).toBe(true);
+  });
+});
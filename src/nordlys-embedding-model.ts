@@ -0,0 +1,159 @@
+import {
+  type EmbeddingModelV3,
+  type EmbeddingModelV3CallOptions,
+  type EmbeddingModelV3Result,
+  TooManyEmbeddingValuesForCallError,
+} from '@ai-sdk/provider';
+import type { FetchFunction } from '@ai-sdk/provider-utils';
+import {
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  parseProviderOptions,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import {
+  type NordlysEmbeddingSettings,
+  nordlysEmbeddingProviderOptions,
+} from './nordlys-embedding-options';
+import { nordlysFailedResponseHandler } from './nordlys-error';
+import { type NordlysRetrySettings, withNordlysRetry } from './nordlys-retry';
+
+interface NordlysEmbeddingConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  retry?: NordlysRetrySettings;
+}
+
+// Zod schema for the embeddings response
+// Embeddings are strings when encoding_format is 'base64'
+const nordlysEmbeddingResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      embedding: z.union([z.array(z.number()), z.string()]),
+      index: z.number().optional(),
+    })
+  ),
+  model: z.string().optional(),
+  usage: z
+    .object({
+      prompt_tokens: z.number(),
+      total_tokens: z.number().optional(),
+    })
+    .nullish(),
+});
+
+export class NordlysEmbeddingModel implements EmbeddingModelV3 {
+  readonly specificationVersion = 'v3';
+  readonly modelId: string;
+  private readonly config: NordlysEmbeddingConfig;
+  private readonly settings: NordlysEmbeddingSettings;
+
+  constructor(
+    modelId: string,
+    settings: NordlysEmbeddingSettings | undefined,
+    config: NordlysEmbeddingConfig
+  ) {
+    this.modelId = modelId;
+    this.config = config;
+    this.settings = settings ?? {};
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  get maxEmbeddingsPerCall(): number {
+    return this.settings.maxEmbeddingsPerCall ?? 2048;
+  }
+
+  get supportsParallelCalls(): boolean {
+    return this.settings.supportsParallelCalls ?? true;
+  }
+
+  /**
+   * Generates embeddings for the given values.
+   * @param options - Call options including the values to embed
+   * @returns Promise resolving to the embeddings in input order, usage and response details
+   */
+  async doEmbed({
+    values,
+    headers,
+    abortSignal,
+    providerOptions,
+  }: EmbeddingModelV3CallOptions): Promise<EmbeddingModelV3Result> {
+    if (values.length > this.maxEmbeddingsPerCall) {
+      throw new TooManyEmbeddingValuesForCallError({
+        provider: this.provider,
+        modelId: this.modelId,
+        maxEmbeddingsPerCall: this.maxEmbeddingsPerCall,
+        values,
+      });
+    }
+
+    const nordlysOptions =
+      (await parseProviderOptions({
+        provider: 'nordlys',
+        providerOptions,
+        schema: nordlysEmbeddingProviderOptions,
+      })) ?? {};
+
+    const {
+      responseHeaders,
+      value: response,
+      rawValue,
+    } = await withNordlysRetry(
+      () =>
+        postJsonToApi({
+          url: `${this.config.baseURL}/embeddings`,
+          headers: combineHeaders(this.config.headers(), headers),
+          body: {
+            model: this.modelId,
+            input: values,
+            ...(nordlysOptions.dimensions != null && {
+              dimensions: nordlysOptions.dimensions,
+            }),
+            encoding_format: nordlysOptions.encoding_format ?? 'float',
+            ...(nordlysOptions.user && { user: nordlysOptions.user }),
+          },
+          failedResponseHandler: nordlysFailedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            nordlysEmbeddingResponseSchema
+          ),
+          abortSignal,
+          fetch: this.config.fetch,
+        }),
+      { retry: this.config.retry, abortSignal }
+    );
+
+    // Restore input order when the API returns indexed items
+    const data = response.data.every((item) => item.index != null)
+      ? [...response.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      : response.data;
+
+    return {
+      embeddings: data.map((item) =>
+        typeof item.embedding === 'string'
+          ? decodeBase64Embedding(item.embedding)
+          : item.embedding
+      ),
+      usage: response.usage
+        ? { tokens: response.usage.prompt_tokens }
+        : undefined,
+      response: { headers: responseHeaders, body: rawValue },
+      warnings: [],
+    };
+  }
+}
+
+/**
+ * Decodes a base64 encoded little-endian float32 embedding.
+ */
+function decodeBase64Embedding(embedding: string): number[] {
+  // copy into a fresh buffer so the float view is always 4-byte aligned
+  const bytes = convertBase64ToUint8Array(embedding).slice();
+  return Array.from(new Float32Array(bytes.buffer));
+}
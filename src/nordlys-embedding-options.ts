@@ -0,0 +1,45 @@
+// Nordlys embedding model options/types
+
+import { z } from 'zod/v4';
+
+/**
+ * Provider options for Nordlys embedding models.
+ */
+export const nordlysEmbeddingProviderOptions = z.object({
+  /**
+   * The number of dimensions the resulting output embeddings should have.
+   * Only supported by models that allow shortening embeddings.
+   */
+  dimensions: z.number().int().positive().optional(),
+  /**
+   * The format of the returned embeddings.
+   * Base64 embeddings are decoded into number arrays by the provider.
+   */
+  encoding_format: z.enum(['float', 'base64']).optional(),
+  /**
+   * Unique identifier representing your end-user.
+   */
+  user: z.string().optional(),
+});
+
+/**
+ * Type for validated Nordlys embedding provider options.
+ */
+export type NordlysEmbeddingProviderOptions = z.infer<
+  typeof nordlysEmbeddingProviderOptions
+>;
+
+/**
+ * Settings that can be set at embedding model creation time.
+ */
+export interface NordlysEmbeddingSettings {
+  /**
+   * Override the maximum number of embeddings per call. Defaults to 2048.
+   */
+  maxEmbeddingsPerCall?: number;
+  /**
+   * Override whether the model can handle multiple embedding calls in parallel.
+   * Defaults to true.
+   */
+  supportsParallelCalls?: boolean;
+}
@@ -1,6 +1,20 @@
+import { APICallError } from '@ai-sdk/provider';
 import { safeParseJSON } from '@ai-sdk/provider-utils';
 import { describe, expect, it } from 'vitest';
-import { nordlysErrorDataSchema } from './nordlys-error';
+import {
+  createNordlysAPIError,
+  NordlysAPIError,
+  NordlysAuthenticationError,
+  NordlysContentFilterError,
+  NordlysContextLengthExceededError,
+  NordlysInvalidRequestError,
+  NordlysPermissionError,
+  NordlysRateLimitError,
+  NordlysRoutingError,
+  NordlysServerOverloadedError,
+  nordlysErrorDataSchema,
+  nordlysFailedResponseHandler,
+} from './nordlys-error';
 
 describe('nordlysErrorDataSchema', () => {
   it('should parse a standard error response', async () => {
@@ -26,3 +40,117 @@ describe('nordlysErrorDataSchema', () => {
     expect(result.value.error.message).toBe('Just a message');
   });
 });
+
+describe('createNordlysAPIError', () => {
+  const baseOptions = {
+    message: 'Request failed',
+    url: 'https://example.com/responses',
+    requestBodyValues: {},
+  };
+
+  it.each([
+    [{ code: 'context_length_exceeded' }, NordlysContextLengthExceededError],
+    [{ code: 'content_filter' }, NordlysContentFilterError],
+    [{ type: 'authentication_error' }, NordlysAuthenticationError],
+    [{ type: 'permission_error' }, NordlysPermissionError],
+    [{ type: 'rate_limit_error' }, NordlysRateLimitError],
+    [{ type: 'invalid_request_error' }, NordlysInvalidRequestError],
+    [{ type: 'overloaded_error' }, NordlysServerOverloadedError],
+    [{ type: 'routing_error' }, NordlysRoutingError],
+    [{ statusCode: 401 }, NordlysAuthenticationError],
+    [{ statusCode: 403 }, NordlysPermissionError],
+    [{ statusCode: 429 }, NordlysRateLimitError],
+    [{ statusCode: 529 }, NordlysServerOverloadedError],
+  ])('should map %o to %o', (options, errorClass) => {
+    const error = createNordlysAPIError({ ...baseOptions, ...options });
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toBeInstanceOf(NordlysAPIError);
+    expect(APICallError.isInstance(error)).toBe(true);
+  });
+
+  it('should prefer the error code over the error type', () => {
+    const error = createNordlysAPIError({
+      ...baseOptions,
+      type: 'invalid_request_error',
+      code: 'context_length_exceeded',
+      statusCode: 400,
+    });
+    expect(error).toBeInstanceOf(NordlysContextLengthExceededError);
+    expect(error.name).toBe('AI_NordlysContextLengthExceededError');
+  });
+
+  it('should set isRetryable per error class', () => {
+    expect(
+      createNordlysAPIError({ ...baseOptions, type: 'rate_limit_error' })
+        .isRetryable
+    ).toBe(true);
+    expect(
+      createNordlysAPIError({ ...baseOptions, type: 'overloaded_error' })
+        .isRetryable
+    ).toBe(true);
+    expect(
+      createNordlysAPIError({ ...baseOptions, type: 'invalid_request_error' })
+        .isRetryable
+    ).toBe(false);
+    expect(
+      createNordlysAPIError({ ...baseOptions, statusCode: 500 }).isRetryable
+    ).toBe(true);
+    expect(
+      createNordlysAPIError({ ...baseOptions, statusCode: 404 }).isRetryable
+    ).toBe(false);
+  });
+
+  it('should expose code, param and request id', () => {
+    const error = createNordlysAPIError({
+      ...baseOptions,
+      type: 'invalid_request_error',
+      code: 'invalid_value',
+      param: 'temperature',
+      responseHeaders: { 'x-request-id': 'req_123' },
+    });
+    expect(error.type).toBe('invalid_request_error');
+    expect(error.code).toBe('invalid_value');
+    expect(error.param).toBe('temperature');
+    expect(error.requestId).toBe('req_123');
+  });
+});
+
+describe('nordlysFailedResponseHandler', () => {
+  it('should convert an error response into a typed error', async () => {
+    const { value: error } = await nordlysFailedResponseHandler({
+      url: 'https://example.com/responses',
+      requestBodyValues: { model: 'nordlys/hypernova' },
+      response: new Response(
+        JSON.stringify({
+          error: {
+            message: 'Rate limit reached',
+            type: 'rate_limit_error',
+            code: 'rate_limit_exceeded',
+          },
+        }),
+        { status: 429, headers: { 'x-request-id': 'req_456' } }
+      ),
+    });
+
+    expect(error).toBeInstanceOf(NordlysRateLimitError);
+    expect(error.message).toBe('Rate limit reached');
+    expect(error.statusCode).toBe(429);
+    expect(error.isRetryable).toBe(true);
+    expect(error.requestId).toBe('req_456');
+    expect(error.requestBodyValues).toEqual({ model: 'nordlys/hypernova' });
+  });
+
+  it('should fall back to the status code when the body is not JSON', async () => {
+    const { value: error } = await nordlysFailedResponseHandler({
+      url: 'https://example.com/responses',
+      requestBodyValues: {},
+      response: new Response('Service Unavailable', {
+        status: 503,
+        statusText: 'Service Unavailable',
+      }),
+    });
+
+    expect(error).toBeInstanceOf(NordlysServerOverloadedError);
+    expect(error.type).toBeUndefined();
+  });
+});
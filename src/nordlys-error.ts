@@ -1,4 +1,8 @@
-import { createJsonErrorResponseHandler } from '@ai-sdk/provider-utils';
+import { APICallError } from '@ai-sdk/provider';
+import {
+  createJsonErrorResponseHandler,
+  type ResponseHandler,
+} from '@ai-sdk/provider-utils';
 import { z } from 'zod';
 
 export const nordlysErrorDataSchema = z.object({
@@ -12,9 +16,261 @@ export const nordlysErrorDataSchema = z.object({
 
 export type NordlysErrorData = z.infer<typeof nordlysErrorDataSchema>;
 
-export const nordlysFailedResponseHandler: ReturnType<
-  typeof createJsonErrorResponseHandler<NordlysErrorData>
-> = createJsonErrorResponseHandler({
+/**
+ * Options for creating a Nordlys API error.
+ */
+export interface NordlysAPIErrorOptions {
+  message: string;
+  url: string;
+  requestBodyValues: unknown;
+  statusCode?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  cause?: unknown;
+  isRetryable?: boolean;
+  /**
+   * Error type reported by the API, e.g. `rate_limit_error`.
+   */
+  type?: string | null;
+  /**
+   * Error code reported by the API, e.g. `context_length_exceeded`.
+   */
+  code?: string | number | null;
+  /**
+   * Request parameter that caused the error, if any.
+   */
+  param?: unknown;
+}
+
+/**
+ * Base class for errors returned by the Nordlys API.
+ * Extends `APICallError`, so AI SDK retry handling keeps working.
+ */
+export class NordlysAPIError extends APICallError {
+  /**
+   * Error type reported by the API.
+   */
+  readonly type: string | undefined;
+  /**
+   * Error code reported by the API.
+   */
+  readonly code: string | number | undefined;
+  /**
+   * Request parameter that caused the error, if any.
+   */
+  readonly param: unknown;
+  /**
+   * Value of the `x-request-id` response header, useful for support requests.
+   */
+  readonly requestId: string | undefined;
+
+  constructor({ type, code, param, ...options }: NordlysAPIErrorOptions) {
+    super(options);
+    this.name = 'AI_NordlysAPIError';
+    this.type = type ?? undefined;
+    this.code = code ?? undefined;
+    this.param = param ?? undefined;
+    this.requestId = options.responseHeaders?.['x-request-id'];
+  }
+}
+
+/**
+ * The API key is missing or invalid (401).
+ */
+export class NordlysAuthenticationError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: false });
+    this.name = 'AI_NordlysAuthenticationError';
+  }
+}
+
+/**
+ * The API key is not allowed to access the requested resource (403).
+ */
+export class NordlysPermissionError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: false });
+    this.name = 'AI_NordlysPermissionError';
+  }
+}
+
+/**
+ * Too many requests or tokens in a given period (429).
+ */
+export class NordlysRateLimitError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: true });
+    this.name = 'AI_NordlysRateLimitError';
+  }
+}
+
+/**
+ * The prompt and requested output exceed the model's context window.
+ */
+export class NordlysContextLengthExceededError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: false });
+    this.name = 'AI_NordlysContextLengthExceededError';
+  }
+}
+
+/**
+ * The request is malformed or contains invalid parameters (400).
+ */
+export class NordlysInvalidRequestError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: false });
+    this.name = 'AI_NordlysInvalidRequestError';
+  }
+}
+
+/**
+ * The input or output was blocked by content filtering.
+ */
+export class NordlysContentFilterError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: false });
+    this.name = 'AI_NordlysContentFilterError';
+  }
+}
+
+/**
+ * Nordlys is temporarily overloaded (503 / 529).
+ */
+export class NordlysServerOverloadedError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: true });
+    this.name = 'AI_NordlysServerOverloadedError';
+  }
+}
+
+/**
+ * No model could be routed for the request, e.g. all candidates are unavailable.
+ */
+export class NordlysRoutingError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: true });
+    this.name = 'AI_NordlysRoutingError';
+  }
+}
+
+/**
+ * A background response was cancelled before it completed.
+ */
+export class NordlysResponseCancelledError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: false });
+    this.name = 'AI_NordlysResponseCancelledError';
+  }
+}
+
+/**
+ * A background response did not reach a terminal status within the configured timeout.
+ */
+export class NordlysResponseTimeoutError extends NordlysAPIError {
+  constructor(options: NordlysAPIErrorOptions) {
+    super({ ...options, isRetryable: false });
+    this.name = 'AI_NordlysResponseTimeoutError';
+  }
+}
+
+/**
+ * Creates the most specific Nordlys error for the error `code`, then `type`,
+ * then HTTP status code. Unknown errors become a plain `NordlysAPIError`
+ * that is retryable for 408, 409, 429 and 5xx responses.
+ */
+export function createNordlysAPIError(
+  options: NordlysAPIErrorOptions
+): NordlysAPIError {
+  switch (options.code) {
+    case 'context_length_exceeded':
+      return new NordlysContextLengthExceededError(options);
+    case 'content_filter':
+    case 'content_filtered':
+      return new NordlysContentFilterError(options);
+    case 'rate_limit_exceeded':
+      return new NordlysRateLimitError(options);
+    case 'invalid_api_key':
+      return new NordlysAuthenticationError(options);
+    case 'server_overloaded':
+      return new NordlysServerOverloadedError(options);
+    case 'routing_failed':
+      return new NordlysRoutingError(options);
+  }
+
+  switch (options.type) {
+    case 'authentication_error':
+      return new NordlysAuthenticationError(options);
+    case 'permission_error':
+      return new NordlysPermissionError(options);
+    case 'rate_limit_error':
+      return new NordlysRateLimitError(options);
+    case 'invalid_request_error':
+      return new NordlysInvalidRequestError(options);
+    case 'content_filter_error':
+      return new NordlysContentFilterError(options);
+    case 'overloaded_error':
+      return new NordlysServerOverloadedError(options);
+    case 'routing_error':
+      return new NordlysRoutingError(options);
+  }
+
+  switch (options.statusCode) {
+    case 400:
+      return new NordlysInvalidRequestError(options);
+    case 401:
+      return new NordlysAuthenticationError(options);
+    case 403:
+      return new NordlysPermissionError(options);
+    case 429:
+      return new NordlysRateLimitError(options);
+    case 503:
+    case 529:
+      return new NordlysServerOverloadedError(options);
+  }
+
+  const statusCode = options.statusCode;
+  return new NordlysAPIError({
+    ...options,
+    isRetryable:
+      options.isRetryable ??
+      (statusCode != null &&
+        (statusCode === 408 ||
+          statusCode === 409 ||
+          statusCode === 429 ||
+          statusCode >= 500)),
+  });
+}
+
+const nordlysJsonErrorResponseHandler = createJsonErrorResponseHandler({
   errorSchema: nordlysErrorDataSchema,
   errorToMessage: (data: NordlysErrorData) => data.error.message,
 });
+
+/**
+ * Converts failed HTTP responses into typed Nordlys errors.
+ */
+export const nordlysFailedResponseHandler: ResponseHandler<
+  NordlysAPIError
+> = async (options) => {
+  const { value: error, responseHeaders } =
+    await nordlysJsonErrorResponseHandler(options);
+
+  const parsed = nordlysErrorDataSchema.safeParse(error.data);
+  const errorData = parsed.success ? parsed.data.error : undefined;
+
+  return {
+    responseHeaders,
+    value: createNordlysAPIError({
+      message: error.message,
+      url: error.url,
+      requestBodyValues: error.requestBodyValues,
+      statusCode: error.statusCode,
+      responseHeaders: error.responseHeaders,
+      responseBody: error.responseBody,
+      type: errorData?.type,
+      code: errorData?.code,
+      param: errorData?.param,
+    }),
+  };
+};
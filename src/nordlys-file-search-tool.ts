@@ -0,0 +1,77 @@
+import { createProviderToolFactoryWithOutputSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import type { NordlysFileSearchCompoundFilter } from './nordlys-responses-types';
+
+const comparisonFilterSchema = z.object({
+  key: z.string(),
+  type: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte']),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+});
+
+const compoundFilterSchema: z.ZodType<NordlysFileSearchCompoundFilter> =
+  z.object({
+    type: z.enum(['and', 'or']),
+    filters: z.array(
+      z.union([comparisonFilterSchema, z.lazy(() => compoundFilterSchema)])
+    ),
+  });
+
+/**
+ * Arguments for configuring the Nordlys file search tool.
+ */
+export const fileSearchArgsSchema = z.object({
+  /**
+   * IDs of the vector stores to search.
+   */
+  vectorStoreIds: z.array(z.string()),
+  /**
+   * Maximum number of results to return.
+   */
+  maxNumResults: z.number().int().positive().optional(),
+  /**
+   * Ranking options for the search.
+   */
+  ranking: z
+    .object({
+      ranker: z.string().optional(),
+      scoreThreshold: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+  /**
+   * Attribute filter applied to the files before searching.
+   */
+  filters: z.union([comparisonFilterSchema, compoundFilterSchema]).optional(),
+});
+
+export type NordlysFileSearchArgs = z.infer<typeof fileSearchArgsSchema>;
+
+/**
+ * Result of a provider-executed file search call.
+ * `results` is only populated when `file_search_call.results` is included.
+ */
+export const fileSearchOutputSchema = z.object({
+  queries: z.array(z.string()),
+  results: z
+    .array(
+      z.object({
+        attributes: z
+          .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+          .nullish(),
+        fileId: z.string(),
+        filename: z.string(),
+        score: z.number(),
+        text: z.string(),
+      })
+    )
+    .nullable(),
+});
+
+export const fileSearch = createProviderToolFactoryWithOutputSchema<
+  Record<string, never>,
+  z.infer<typeof fileSearchOutputSchema>,
+  NordlysFileSearchArgs
+>({
+  id: 'nordlys.file_search',
+  inputSchema: z.object({}),
+  outputSchema: fileSearchOutputSchema,
+});
@@ -0,0 +1,71 @@
+import { createProviderToolFactoryWithOutputSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+/**
+ * Arguments for configuring the Nordlys image generation tool.
+ */
+export const imageGenerationArgsSchema = z.object({
+  /**
+   * Background type for the generated image.
+   */
+  background: z.enum(['auto', 'opaque', 'transparent']).optional(),
+  /**
+   * Compression level (0-100) for jpeg and webp output.
+   */
+  outputCompression: z.number().int().min(0).max(100).optional(),
+  /**
+   * Format of the generated image. Defaults to png.
+   */
+  outputFormat: z.enum(['png', 'jpeg', 'webp']).optional(),
+  /**
+   * Number of partial images (0-3) to stream before the final image.
+   */
+  partialImages: z.number().int().min(0).max(3).optional(),
+  /**
+   * Quality of the generated image.
+   */
+  quality: z.enum(['auto', 'low', 'medium', 'high']).optional(),
+  /**
+   * Size of the generated image, e.g. `1024x1024`, or `auto`.
+   */
+  size: z.string().optional(),
+});
+
+export type NordlysImageGenerationArgs = z.infer<
+  typeof imageGenerationArgsSchema
+>;
+
+/**
+ * Result of a provider-executed image generation call.
+ * The final image itself is returned as a separate `file` content part.
+ * While streaming, each partial image is sent as a preliminary result with
+ * the `generating` status.
+ */
+export const imageGenerationOutputSchema = z.union([
+  z.object({
+    status: z.literal('generating'),
+    /**
+     * Index of the partial image, starting at 0.
+     */
+    partialImageIndex: z.number(),
+    /**
+     * Base64 encoded partial image.
+     */
+    partialImage: z.string(),
+    mediaType: z.string(),
+  }),
+  z.object({
+    status: z.string().optional(),
+    revisedPrompt: z.string().optional(),
+  }),
+]);
+
+export const imageGeneration = createProviderToolFactoryWithOutputSchema<
+  Record<string, never>,
+  z.infer<typeof imageGenerationOutputSchema>,
+  NordlysImageGenerationArgs
+>({
+  id: 'nordlys.image_generation',
+  inputSchema: z.object({}),
+  outputSchema: imageGenerationOutputSchema,
+});
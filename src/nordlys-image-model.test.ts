@@ -0,0 +1,141 @@
+import type { ImageModelV3CallOptions } from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import { NordlysImageModel } from './nordlys-image-model';
+
+const createModel = (mockFetch: typeof fetch) =>
+  new NordlysImageModel('nordlys/image', undefined, {
+    provider: 'nordlys.image',
+    baseURL: 'https://example.com',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: mockFetch,
+    currentDate: () => new Date('2025-01-01T00:00:00Z'),
+  });
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    headers: { 'content-type': 'application/json' },
+  });
+
+const defaultOptions: ImageModelV3CallOptions = {
+  prompt: 'A lighthouse under the northern lights',
+  n: 1,
+  size: undefined,
+  aspectRatio: undefined,
+  seed: undefined,
+  files: undefined,
+  mask: undefined,
+  providerOptions: {},
+};
+
+describe('NordlysImageModel', () => {
+  it('should send the request to the image generations endpoint', async () => {
+    const mockFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValue(jsonResponse({ data: [{ b64_json: 'aW1hZ2U=' }] }));
+
+    await createModel(mockFetch).doGenerate({
+      ...defaultOptions,
+      n: 2,
+      size: '1024x1024',
+      aspectRatio: '16:9',
+      seed: 42,
+      providerOptions: {
+        nordlys: { quality: 'high', background: 'transparent', user: 'u-1' },
+      },
+    });
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://example.com/images/generations'
+    );
+    expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+      model: 'nordlys/image',
+      prompt: 'A lighthouse under the northern lights',
+      n: 2,
+      size: '1024x1024',
+      aspect_ratio: '16:9',
+      seed: 42,
+      quality: 'high',
+      background: 'transparent',
+      user: 'u-1',
+    });
+  });
+
+  it('should return base64 images with metadata and usage', async () => {
+    const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+      jsonResponse({
+        model: 'nordlys/image-1',
+        data: [
+          { b64_json: 'aW1hZ2Ux', revised_prompt: 'A tall lighthouse' },
+          { b64_json: 'aW1hZ2Uy' },
+        ],
+        usage: { input_tokens: 12, output_tokens: 100, total_tokens: 112 },
+      })
+    );
+
+    const result = await createModel(mockFetch).doGenerate({
+      ...defaultOptions,
+      n: 2,
+    });
+
+    expect(result.images).toEqual(['aW1hZ2Ux', 'aW1hZ2Uy']);
+    expect(result.providerMetadata).toEqual({
+      nordlys: { images: [{ revisedPrompt: 'A tall lighthouse' }, {}] },
+    });
+    expect(result.usage).toEqual({
+      inputTokens: 12,
+      outputTokens: 100,
+      totalTokens: 112,
+    });
+    expect(result.response).toMatchObject({
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      modelId: 'nordlys/image-1',
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should download images returned as URLs', async () => {
+    const imageBytes = new Uint8Array([137, 80, 78, 71]);
+    const mockFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        jsonResponse({
+          data: [{ url: 'https://cdn.example.com/image.png' }],
+        })
+      )
+      .mockResolvedValueOnce(new Response(imageBytes));
+
+    const result = await createModel(mockFetch).doGenerate(defaultOptions);
+
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://cdn.example.com/image.png'
+    );
+    expect(result.images).toEqual([imageBytes]);
+    expect(result.providerMetadata).toEqual({
+      nordlys: { images: [{ url: 'https://cdn.example.com/image.png' }] },
+    });
+  });
+
+  it('should warn about unsupported image editing inputs', async () => {
+    const mockFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValue(jsonResponse({ data: [{ b64_json: 'aW1hZ2U=' }] }));
+
+    const result = await createModel(mockFetch).doGenerate({
+      ...defaultOptions,
+      files: [{ type: 'url', url: 'https://example.com/input.png' }],
+    });
+
+    expect(result.warnings).toEqual([
+      {
+        type: 'unsupported',
+        feature: 'files',
+        details: 'Image editing is not supported by Nordlys image models.',
+      },
+    ]);
+  });
+
+  it('should default maxImagesPerCall', () => {
+    const model = createModel(vi.fn<typeof fetch>());
+    expect(model.maxImagesPerCall).toBe(10);
+  });
+});
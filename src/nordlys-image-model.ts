@@ -0,0 +1,220 @@
+import {
+  type ImageModelV3,
+  type ImageModelV3CallOptions,
+  InvalidResponseDataError,
+  type SharedV3Warning,
+} from '@ai-sdk/provider';
+import type { FetchFunction } from '@ai-sdk/provider-utils';
+import {
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createBinaryResponseHandler,
+  createJsonResponseHandler,
+  createStatusCodeErrorResponseHandler,
+  getFromApi,
+  parseProviderOptions,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { nordlysFailedResponseHandler } from './nordlys-error';
+import {
+  type NordlysImageSettings,
+  nordlysImageProviderOptions,
+} from './nordlys-image-options';
+import { type NordlysRetrySettings, withNordlysRetry } from './nordlys-retry';
+
+interface NordlysImageConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  currentDate?: () => Date;
+  retry?: NordlysRetrySettings;
+}
+
+// Zod schema for the image generation response
+// Each image is returned either as base64 data or as a URL
+const nordlysImageResponseSchema = z.object({
+  created: z.number().optional(),
+  model: z.string().optional(),
+  data: z.array(
+    z.object({
+      b64_json: z.string().nullish(),
+      url: z.string().nullish(),
+      revised_prompt: z.string().nullish(),
+    })
+  ),
+  usage: z
+    .object({
+      input_tokens: z.number().nullish(),
+      output_tokens: z.number().nullish(),
+      total_tokens: z.number().nullish(),
+    })
+    .nullish(),
+});
+
+export class NordlysImageModel implements ImageModelV3 {
+  readonly specificationVersion = 'v3';
+  readonly modelId: string;
+  private readonly config: NordlysImageConfig;
+  private readonly settings: NordlysImageSettings;
+
+  constructor(
+    modelId: string,
+    settings: NordlysImageSettings | undefined,
+    config: NordlysImageConfig
+  ) {
+    this.modelId = modelId;
+    this.config = config;
+    this.settings = settings ?? {};
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  get maxImagesPerCall(): number {
+    return this.settings.maxImagesPerCall ?? 10;
+  }
+
+  /**
+   * Generates images for the given prompt.
+   * @param options - Call options including prompt, size, aspect ratio, n and seed
+   * @returns Promise resolving to the images, warnings and response details
+   */
+  async doGenerate({
+    prompt,
+    n,
+    size,
+    aspectRatio,
+    seed,
+    files,
+    mask,
+    providerOptions,
+    headers,
+    abortSignal,
+  }: ImageModelV3CallOptions): Promise<
+    Awaited<ReturnType<ImageModelV3['doGenerate']>>
+  > {
+    const warnings: SharedV3Warning[] = [];
+
+    if (files != null && files.length > 0) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'files',
+        details: 'Image editing is not supported by Nordlys image models.',
+      });
+    }
+
+    if (mask != null) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'mask',
+        details: 'Image editing is not supported by Nordlys image models.',
+      });
+    }
+
+    const nordlysOptions =
+      (await parseProviderOptions({
+        provider: 'nordlys',
+        providerOptions,
+        schema: nordlysImageProviderOptions,
+      })) ?? {};
+
+    const currentDate = this.config.currentDate?.() ?? new Date();
+
+    const { value: response, responseHeaders } = await withNordlysRetry(
+      () =>
+        postJsonToApi({
+          url: `${this.config.baseURL}/images/generations`,
+          headers: combineHeaders(this.config.headers(), headers),
+          body: {
+            model: this.modelId,
+            prompt,
+            n,
+            ...(size && { size }),
+            ...(aspectRatio && { aspect_ratio: aspectRatio }),
+            ...(seed != null && { seed }),
+            ...(nordlysOptions.quality && { quality: nordlysOptions.quality }),
+            ...(nordlysOptions.background && {
+              background: nordlysOptions.background,
+            }),
+            ...(nordlysOptions.user && { user: nordlysOptions.user }),
+          },
+          failedResponseHandler: nordlysFailedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            nordlysImageResponseSchema
+          ),
+          abortSignal,
+          fetch: this.config.fetch,
+        }),
+      { retry: this.config.retry, abortSignal }
+    );
+
+    // Images must be returned in a single representation:
+    // base64 strings when possible, otherwise binary data for URL outputs
+    const hasUrlImages = response.data.some((image) => image.b64_json == null);
+
+    const images = hasUrlImages
+      ? await Promise.all(
+          response.data.map((image) =>
+            image.b64_json != null
+              ? convertBase64ToUint8Array(image.b64_json)
+              : this.downloadImage(image, abortSignal)
+          )
+        )
+      : response.data.map((image) => image.b64_json as string);
+
+    return {
+      images,
+      warnings,
+      providerMetadata: {
+        nordlys: {
+          images: response.data.map((image) => ({
+            ...(image.revised_prompt != null && {
+              revisedPrompt: image.revised_prompt,
+            }),
+            ...(image.url != null && { url: image.url }),
+          })),
+        },
+      },
+      response: {
+        timestamp: currentDate,
+        modelId: response.model ?? this.modelId,
+        headers: responseHeaders,
+      },
+      ...(response.usage && {
+        usage: {
+          inputTokens: response.usage.input_tokens ?? undefined,
+          outputTokens: response.usage.output_tokens ?? undefined,
+          totalTokens: response.usage.total_tokens ?? undefined,
+        },
+      }),
+    };
+  }
+
+  /**
+   * Downloads an image returned as a URL.
+   */
+  private async downloadImage(
+    image: { url?: string | null },
+    abortSignal: AbortSignal | undefined
+  ): Promise<Uint8Array> {
+    if (image.url == null) {
+      throw new InvalidResponseDataError({
+        data: image,
+        message: 'Image generation response contains neither b64_json nor url.',
+      });
+    }
+
+    const { value } = await getFromApi({
+      url: image.url,
+      successfulResponseHandler: createBinaryResponseHandler(),
+      failedResponseHandler: createStatusCodeErrorResponseHandler(),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return value;
+  }
+}
@@ -0,0 +1,40 @@
+// Nordlys image model options/types
+
+import { z } from 'zod/v4';
+
+/**
+ * Provider options for Nordlys image models.
+ */
+export const nordlysImageProviderOptions = z.object({
+  /**
+   * Quality of the generated images.
+   */
+  quality: z.enum(['auto', 'low', 'medium', 'high']).optional(),
+  /**
+   * Background of the generated images. 'transparent' requires an output format
+   * that supports transparency.
+   */
+  background: z.enum(['auto', 'transparent', 'opaque']).optional(),
+  /**
+   * Unique identifier representing your end-user.
+   */
+  user: z.string().optional(),
+});
+
+/**
+ * Type for validated Nordlys image provider options.
+ */
+export type NordlysImageProviderOptions = z.infer<
+  typeof nordlysImageProviderOptions
+>;
+
+/**
+ * Settings that can be set at image model creation time.
+ */
+export interface NordlysImageSettings {
+  /**
+   * Override the maximum number of images per call. Defaults to 10.
+   * Larger requests are split into multiple calls by the AI SDK.
+   */
+  maxImagesPerCall?: number;
+}
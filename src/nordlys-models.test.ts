@@ -0,0 +1,212 @@
+import type { LanguageModelV3Prompt } from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  getModelCapabilities,
+  getModelCapabilityWarnings,
+  listNordlysModels,
+  type NordlysModelCapabilities,
+} from './nordlys-models';
+
+describe('getModelCapabilities', () => {
+  it('should return the capabilities of known models', () => {
+    expect(getModelCapabilities('nordlys/hypernova')).toEqual({
+      inputModalities: ['text', 'image', 'audio', 'file'],
+      outputModalities: ['text', 'audio'],
+      tools: true,
+      reasoning: true,
+      structuredOutputs: true,
+    });
+  });
+
+  it('should return undefined for unknown models', () => {
+    expect(getModelCapabilities('custom/model')).toBeUndefined();
+  });
+});
+
+describe('getModelCapabilityWarnings', () => {
+  const audioPrompt: LanguageModelV3Prompt = [
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'file',
+          mediaType: 'audio/wav',
+          data: 'AAAA',
+        },
+      ],
+    },
+  ];
+
+  const textOnlyCapabilities: NordlysModelCapabilities = {
+    inputModalities: ['text'],
+    outputModalities: ['text'],
+    tools: true,
+    reasoning: false,
+    structuredOutputs: true,
+  };
+
+  it('should warn about features the model does not support', () => {
+    expect(
+      getModelCapabilityWarnings({
+        modelId: 'custom/model',
+        capabilities: textOnlyCapabilities,
+        prompt: audioPrompt,
+        tools: undefined,
+        responseFormat: undefined,
+        reasoning: true,
+        audioOutput: true,
+      })
+    ).toEqual([
+      {
+        type: 'unsupported',
+        feature: 'audio',
+        details:
+          "the prompt contains audio, but model 'custom/model' does not support 'audio'.",
+      },
+      {
+        type: 'unsupported',
+        feature: 'reasoning',
+        details:
+          "reasoning is configured, but model 'custom/model' does not support 'reasoning'.",
+      },
+      {
+        type: 'unsupported',
+        feature: 'audio output',
+        details: "Model 'custom/model' does not generate audio.",
+      },
+    ]);
+  });
+
+  it('should not warn about supported features', () => {
+    expect(
+      getModelCapabilityWarnings({
+        modelId: 'nordlys/hypernova',
+        capabilities: getModelCapabilities('nordlys/hypernova'),
+        prompt: audioPrompt,
+        tools: undefined,
+        responseFormat: undefined,
+        reasoning: true,
+        audioOutput: true,
+      })
+    ).toEqual([]);
+  });
+
+  it('should not check models without known capabilities', () => {
+    expect(
+      getModelCapabilityWarnings({
+        modelId: 'custom/model',
+        capabilities: undefined,
+        prompt: audioPrompt,
+        tools: undefined,
+        responseFormat: undefined,
+        reasoning: true,
+        audioOutput: true,
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('listNordlysModels', () => {
+  it('should fetch and map the model catalog', async () => {
+    const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          object: 'list',
+          data: [
+            {
+              id: 'nordlys/hypernova',
+              object: 'model',
+              context_window: 200000,
+              max_output_tokens: 32000,
+              modalities: {
+                input: ['text', 'image', 'audio', 'file'],
+                output: ['text', 'audio'],
+              },
+              supports_tools: true,
+              supports_reasoning: true,
+              supports_structured_outputs: true,
+              pricing: { input: 1.5, output: 6 },
+            },
+            { id: 'custom/model', object: 'model' },
+          ],
+        }),
+        { headers: { 'content-type': 'application/json' } }
+      )
+    );
+
+    const models = await listNordlysModels({
+      baseURL: 'https://example.com',
+      headers: { Authorization: 'Bearer test-key' },
+      fetch: mockFetch,
+    });
+
+    expect(mockFetch.mock.calls[0]?.[0]).toBe('https://example.com/models');
+    expect(mockFetch.mock.calls[0]?.[1]?.method).toBe('GET');
+    expect(models).toEqual([
+      {
+        id: 'nordlys/hypernova',
+        contextWindow: 200000,
+        maxOutputTokens: 32000,
+        inputModalities: ['text', 'image', 'audio', 'file'],
+        outputModalities: ['text', 'audio'],
+        tools: true,
+        reasoning: true,
+        structuredOutputs: true,
+        pricing: { input: 1.5, output: 6 },
+      },
+      {
+        id: 'custom/model',
+        inputModalities: ['text'],
+        outputModalities: ['text'],
+        tools: false,
+        reasoning: false,
+        structuredOutputs: false,
+      },
+    ]);
+  });
+
+  it('should ignore unknown modalities', async () => {
+    const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          object: 'list',
+          data: [
+            {
+              id: 'nordlys/hypernova',
+              object: 'model',
+              modalities: { input: ['text', 'video'], output: ['text'] },
+            },
+          ],
+        }),
+        { headers: { 'content-type': 'application/json' } }
+      )
+    );
+
+    const [model] = await listNordlysModels({
+      baseURL: 'https://example.com',
+      headers: {},
+      fetch: mockFetch,
+    });
+
+    expect(model?.inputModalities).toEqual(['text']);
+  });
+
+  it('should throw Nordlys API errors', async () => {
+    const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          error: { message: 'Invalid API key', type: 'authentication_error' },
+        }),
+        { status: 401 }
+      )
+    );
+
+    await expect(
+      listNordlysModels({
+        baseURL: 'https://example.com',
+        headers: {},
+        fetch: mockFetch,
+      })
+    ).rejects.toMatchObject({ name: 'AI_NordlysAuthenticationError' });
+  });
+});
@@ -0,0 +1,273 @@
+import type {
+  LanguageModelV3CallOptions,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import {
+  createJsonResponseHandler,
+  type FetchFunction,
+  getFromApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { nordlysFailedResponseHandler } from './nordlys-error';
+import { getUsedCapabilities } from './nordlys-prepare-routing';
+import type { NordlysModelCapability } from './nordlys-responses-types';
+import { type NordlysRetrySettings, withNordlysRetry } from './nordlys-retry';
+
+/**
+ * Known Nordlys chat models. Any other model id is accepted as well.
+ */
+export type NordlysChatModelId = 'nordlys/hypernova' | (string & {});
+
+/**
+ * Input or output modality of a model.
+ */
+export type NordlysModelModality = 'text' | 'image' | 'audio' | 'file';
+
+/**
+ * Features supported by a chat model.
+ */
+export interface NordlysModelCapabilities {
+  /**
+   * Modalities accepted in the prompt.
+   */
+  inputModalities: NordlysModelModality[];
+  /**
+   * Modalities the model can generate.
+   */
+  outputModalities: NordlysModelModality[];
+  /**
+   * Whether function and provider tools can be used.
+   */
+  tools: boolean;
+  /**
+   * Whether reasoning can be configured.
+   */
+  reasoning: boolean;
+  /**
+   * Whether JSON schema response formats are enforced.
+   */
+  structuredOutputs: boolean;
+}
+
+/**
+ * Model returned by `provider.listModels()`.
+ */
+export interface NordlysModelInfo extends NordlysModelCapabilities {
+  id: string;
+  /**
+   * Maximum number of input and output tokens.
+   */
+  contextWindow?: number;
+  /**
+   * Maximum number of output tokens.
+   */
+  maxOutputTokens?: number;
+  /**
+   * Price in USD per million tokens.
+   */
+  pricing?: {
+    input?: number;
+    output?: number;
+  };
+}
+
+// Only documented models are listed, with the features named in the README's
+// "Supported Features" section: multimodal inputs (images, audio, PDFs),
+// reasoning, tool calls and file generation.
+const knownModelCapabilities: Record<string, NordlysModelCapabilities> = {
+  'nordlys/hypernova': {
+    inputModalities: ['text', 'image', 'audio', 'file'],
+    outputModalities: ['text', 'audio'],
+    tools: true,
+    reasoning: true,
+    structuredOutputs: true,
+  },
+};
+
+/**
+ * Returns the capabilities of a known chat model, or undefined for model ids
+ * that are not part of the bundled catalog. Use `provider.listModels()` for
+ * the models currently available to your account.
+ */
+export function getModelCapabilities(
+  modelId: NordlysChatModelId
+): NordlysModelCapabilities | undefined {
+  return knownModelCapabilities[modelId];
+}
+
+/**
+ * Checks a capability as used in routing preferences against the
+ * capabilities of a model.
+ */
+export function hasModelCapability(
+  capabilities: NordlysModelCapabilities,
+  capability: NordlysModelCapability
+): boolean {
+  switch (capability) {
+    case 'vision':
+      return capabilities.inputModalities.includes('image');
+    case 'audio':
+      return capabilities.inputModalities.includes('audio');
+    case 'tools':
+      return capabilities.tools;
+    case 'reasoning':
+      return capabilities.reasoning;
+    case 'structured_outputs':
+      return capabilities.structuredOutputs;
+  }
+}
+
+/**
+ * Warns about features of the call that a model does not support, e.g.
+ * images in the prompt of a model without vision. Models without known
+ * capabilities are not checked.
+ */
+export function getModelCapabilityWarnings({
+  modelId,
+  capabilities,
+  prompt,
+  tools,
+  responseFormat,
+  reasoning,
+  audioOutput,
+}: {
+  modelId: NordlysChatModelId;
+  capabilities: NordlysModelCapabilities | undefined;
+  prompt: LanguageModelV3CallOptions['prompt'];
+  tools: LanguageModelV3CallOptions['tools'];
+  responseFormat: LanguageModelV3CallOptions['responseFormat'];
+  reasoning: boolean;
+  audioOutput: boolean;
+}): SharedV3Warning[] {
+  const warnings: SharedV3Warning[] = [];
+
+  if (capabilities == null) {
+    return warnings;
+  }
+
+  const usedCapabilities = getUsedCapabilities({
+    prompt,
+    tools,
+    responseFormat,
+  });
+  if (reasoning) {
+    usedCapabilities.set('reasoning', 'reasoning is configured');
+  }
+
+  for (const [capability, reason] of usedCapabilities) {
+    if (!hasModelCapability(capabilities, capability)) {
+      warnings.push({
+        type: 'unsupported',
+        feature: capability,
+        details: `${reason}, but model '${modelId}' does not support '${capability}'.`,
+      });
+    }
+  }
+
+  if (audioOutput && !capabilities.outputModalities.includes('audio')) {
+    warnings.push({
+      type: 'unsupported',
+      feature: 'audio output',
+      details: `Model '${modelId}' does not generate audio.`,
+    });
+  }
+
+  return warnings;
+}
+
+const nordlysModelModalities: readonly string[] = [
+  'text',
+  'image',
+  'audio',
+  'file',
+] satisfies NordlysModelModality[];
+
+// Modalities the provider does not know yet are dropped instead of failing
+// the whole catalog.
+function filterModelModalities(
+  modalities: string[] | null | undefined
+): NordlysModelModality[] | undefined {
+  return modalities?.filter((modality): modality is NordlysModelModality =>
+    nordlysModelModalities.includes(modality)
+  );
+}
+
+const nordlysModelsResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      id: z.string(),
+      context_window: z.number().nullish(),
+      max_output_tokens: z.number().nullish(),
+      modalities: z
+        .object({
+          input: z.array(z.string()).nullish(),
+          output: z.array(z.string()).nullish(),
+        })
+        .nullish(),
+      supports_tools: z.boolean().nullish(),
+      supports_reasoning: z.boolean().nullish(),
+      supports_structured_outputs: z.boolean().nullish(),
+      pricing: z
+        .object({
+          input: z.number().nullish(),
+          output: z.number().nullish(),
+        })
+        .nullish(),
+    })
+  ),
+});
+
+/**
+ * Fetches the model catalog from `GET /models`.
+ */
+export async function listNordlysModels({
+  baseURL,
+  headers,
+  fetch,
+  retry,
+  abortSignal,
+}: {
+  baseURL: string;
+  headers: Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  retry?: NordlysRetrySettings;
+  abortSignal?: AbortSignal;
+}): Promise<NordlysModelInfo[]> {
+  const { value: response } = await withNordlysRetry(
+    () =>
+      getFromApi({
+        url: `${baseURL}/models`,
+        headers,
+        failedResponseHandler: nordlysFailedResponseHandler,
+        successfulResponseHandler: createJsonResponseHandler(
+          nordlysModelsResponseSchema
+        ),
+        abortSignal,
+        fetch,
+      }),
+    { retry, abortSignal }
+  );
+
+  return response.data.map((model) => ({
+    id: model.id,
+    ...(model.context_window != null && {
+      contextWindow: model.context_window,
+    }),
+    ...(model.max_output_tokens != null && {
+      maxOutputTokens: model.max_output_tokens,
+    }),
+    inputModalities: filterModelModalities(model.modalities?.input) ?? ['text'],
+    outputModalities: filterModelModalities(model.modalities?.output) ?? [
+      'text',
+    ],
+    tools: model.supports_tools ?? false,
+    reasoning: model.supports_reasoning ?? false,
+    structuredOutputs: model.supports_structured_outputs ?? false,
+    ...(model.pricing != null && {
+      pricing: {
+        ...(model.pricing.input != null && { input: model.pricing.input }),
+        ...(model.pricing.output != null && { output: model.pricing.output }),
+      },
+    }),
+  }));
+}
@@ -0,0 +1,119 @@
+import type { LanguageModelV3Prompt } from '@ai-sdk/provider';
+import { describe, expect, it } from 'vitest';
+import { prepareRouting } from './nordlys-prepare-routing';
+
+describe('prepareRouting', () => {
+  const textPrompt: LanguageModelV3Prompt = [
+    { role: 'user', content: [{ type: 'text', text: 'Summarize this' }] },
+  ];
+
+  it('should return undefined without routing preferences', () => {
+    expect(
+      prepareRouting({
+        routing: undefined,
+        prompt: textPrompt,
+        tools: undefined,
+        responseFormat: undefined,
+      })
+    ).toEqual({ routing: undefined, routingWarnings: [] });
+  });
+
+  it('should forward routing preferences', () => {
+    const routing = {
+      optimize_for: 'latency' as const,
+      max_price_per_million_tokens: 5,
+      allowed_providers: ['provider-a'],
+      excluded_models: ['model-x'],
+      required_capabilities: ['tools' as const],
+    };
+
+    expect(
+      prepareRouting({
+        routing,
+        prompt: textPrompt,
+        tools: undefined,
+        responseFormat: undefined,
+      })
+    ).toEqual({ routing, routingWarnings: [] });
+  });
+
+  it('should warn when a value is both allowed and excluded', () => {
+    const { routingWarnings } = prepareRouting({
+      routing: {
+        allowed_models: ['model-a', 'model-b'],
+        excluded_models: ['model-b'],
+        required_capabilities: ['reasoning'],
+        excluded_capabilities: ['reasoning'],
+      },
+      prompt: textPrompt,
+      tools: undefined,
+      responseFormat: undefined,
+    });
+
+    expect(routingWarnings).toEqual([
+      {
+        type: 'other',
+        message:
+          "Routing preference conflict: 'model-b' is listed in both routing.allowed_models and routing.excluded_models.",
+      },
+      {
+        type: 'other',
+        message:
+          "Routing preference conflict: 'reasoning' is listed in both routing.required_capabilities and routing.excluded_capabilities.",
+      },
+    ]);
+  });
+
+  it('should warn when excluded capabilities are needed by the call', () => {
+    const { routingWarnings } = prepareRouting({
+      routing: {
+        excluded_capabilities: [
+          'vision',
+          'audio',
+          'tools',
+          'structured_outputs',
+        ],
+      },
+      prompt: [
+        {
+          role: 'user',
+          content: [
+            { type: 'file', mediaType: 'image/png', data: 'aGVsbG8=' },
+            { type: 'file', mediaType: 'audio/wav', data: 'aGVsbG8=' },
+          ],
+        },
+      ],
+      tools: [
+        {
+          type: 'function',
+          name: 'lookup',
+          inputSchema: { type: 'object', properties: {} },
+        },
+      ],
+      responseFormat: { type: 'json', schema: { type: 'object' } },
+    });
+
+    expect(routingWarnings.map((warning) => warning.type)).toEqual([
+      'other',
+      'other',
+      'other',
+      'other',
+    ]);
+    expect(routingWarnings[0]).toEqual({
+      type: 'other',
+      message:
+        "Routing preference conflict: the prompt contains images, but 'vision' is listed in routing.excluded_capabilities.",
+    });
+  });
+
+  it('should not warn for excluded capabilities the call does not use', () => {
+    const { routingWarnings } = prepareRouting({
+      routing: { excluded_capabilities: ['vision', 'tools'] },
+      prompt: textPrompt,
+      tools: [],
+      responseFormat: { type: 'json' },
+    });
+
+    expect(routingWarnings).toEqual([]);
+  });
+});
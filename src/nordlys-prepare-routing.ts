@@ -0,0 +1,113 @@
+import type {
+  LanguageModelV3CallOptions,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import type { NordlysRoutingPreferences } from './nordlys-chat-options';
+import type {
+  NordlysModelCapability,
+  NordlysRoutingParam,
+} from './nordlys-responses-types';
+
+/**
+ * Converts the `routing` provider option to the request parameter and warns
+ * about preferences that contradict each other or the call, e.g. an image in
+ * the prompt while `vision` is an excluded capability.
+ */
+export function prepareRouting({
+  routing,
+  prompt,
+  tools,
+  responseFormat,
+}: {
+  routing: NordlysRoutingPreferences | undefined;
+  prompt: LanguageModelV3CallOptions['prompt'];
+  tools: LanguageModelV3CallOptions['tools'];
+  responseFormat: LanguageModelV3CallOptions['responseFormat'];
+}): {
+  routing: NordlysRoutingParam | undefined;
+  routingWarnings: SharedV3Warning[];
+} {
+  const routingWarnings: SharedV3Warning[] = [];
+
+  if (routing == null) {
+    return { routing: undefined, routingWarnings };
+  }
+
+  for (const [allowedKey, excludedKey] of [
+    ['allowed_models', 'excluded_models'],
+    ['allowed_providers', 'excluded_providers'],
+    ['required_capabilities', 'excluded_capabilities'],
+  ] as const) {
+    const excluded = new Set<string>(routing[excludedKey] ?? []);
+    for (const value of routing[allowedKey] ?? []) {
+      if (excluded.has(value)) {
+        routingWarnings.push({
+          type: 'other',
+          message: `Routing preference conflict: '${value}' is listed in both routing.${allowedKey} and routing.${excludedKey}.`,
+        });
+      }
+    }
+  }
+
+  const excludedCapabilities = new Set(routing.excluded_capabilities ?? []);
+  for (const [capability, reason] of getUsedCapabilities({
+    prompt,
+    tools,
+    responseFormat,
+  })) {
+    if (excludedCapabilities.has(capability)) {
+      routingWarnings.push({
+        type: 'other',
+        message: `Routing preference conflict: ${reason}, but '${capability}' is listed in routing.excluded_capabilities.`,
+      });
+    }
+  }
+
+  return { routing, routingWarnings };
+}
+
+/**
+ * Capabilities the call relies on, with a description of why.
+ */
+export function getUsedCapabilities({
+  prompt,
+  tools,
+  responseFormat,
+}: {
+  prompt: LanguageModelV3CallOptions['prompt'];
+  tools: LanguageModelV3CallOptions['tools'];
+  responseFormat: LanguageModelV3CallOptions['responseFormat'];
+}): Map<NordlysModelCapability, string> {
+  const capabilities = new Map<NordlysModelCapability, string>();
+
+  for (const message of prompt) {
+    if (message.role !== 'user') {
+      continue;
+    }
+
+    for (const part of message.content) {
+      if (part.type !== 'file') {
+        continue;
+      }
+
+      if (part.mediaType.startsWith('image/')) {
+        capabilities.set('vision', 'the prompt contains images');
+      } else if (part.mediaType.startsWith('audio/')) {
+        capabilities.set('audio', 'the prompt contains audio');
+      }
+    }
+  }
+
+  if (tools?.length) {
+    capabilities.set('tools', 'tools are provided');
+  }
+
+  if (responseFormat?.type === 'json' && responseFormat.schema != null) {
+    capabilities.set(
+      'structured_outputs',
+      'a JSON schema response format is requested'
+    );
+  }
+
+  return capabilities;
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { prepareTools } from './nordlys-prepare-tools';
+
+describe('prepareTools', () => {
+  it('should return undefined tools when no tools are provided', () => {
+    expect(prepareTools({ tools: [] })).toEqual({
+      tools: undefined,
+      toolChoice: undefined,
+      toolWarnings: [],
+    });
+  });
+
+  it('should convert function tools', () => {
+    const result = prepareTools({
+      tools: [
+        {
+          type: 'function',
+          name: 'getWeather',
+          description: 'Get the weather',
+          inputSchema: { type: 'object', properties: {} },
+        },
+      ],
+      toolChoice: { type: 'tool', toolName: 'getWeather' },
+    });
+
+    expect(result.tools).toEqual([
+      {
+        type: 'function',
+        name: 'getWeather',
+        description: 'Get the weather',
+        parameters: { type: 'object', properties: {} },
+      },
+    ]);
+    expect(result.toolChoice).toEqual({ type: 'function', name: 'getWeather' });
+  });
+
+  it('should convert the web search provider tool', () => {
+    const result = prepareTools({
+      tools: [
+        {
+          type: 'provider',
+          id: 'nordlys.web_search',
+          name: 'search',
+          args: {
+            searchContextSize: 'high',
+            userLocation: { type: 'approximate', city: 'Oslo' },
+          },
+        },
+      ],
+      toolChoice: { type: 'tool', toolName: 'search' },
+    });
+
+    expect(result.tools).toEqual([
+      {
+        type: 'web_search',
+        search_context_size: 'high',
+        user_location: { type: 'approximate', city: 'Oslo' },
+      },
+    ]);
+    expect(result.toolChoice).toEqual({ type: 'web_search' });
+    expect(result.toolWarnings).toEqual([]);
+  });
+
+  it('should convert the file search provider tool', () => {
+    const result = prepareTools({
+      tools: [
+        {
+          type: 'provider',
+          id: 'nordlys.file_search',
+          name: 'docs',
+          args: {
+            vectorStoreIds: ['vs_1'],
+            maxNumResults: 5,
+            ranking: { ranker: 'auto', scoreThreshold: 0.5 },
+            filters: {
+              type: 'and',
+              filters: [
+                { key: 'team', type: 'eq', value: 'core' },
+                { key: 'year', type: 'gte', value: 2024 },
+              ],
+            },
+          },
+        },
+      ],
+      toolChoice: { type: 'tool', toolName: 'docs' },
+    });
+
+    expect(result.tools).toEqual([
+      {
+        type: 'file_search',
+        vector_store_ids: ['vs_1'],
+        max_num_results: 5,
+        ranking_options: { ranker: 'auto', score_threshold: 0.5 },
+        filters: {
+          type: 'and',
+          filters: [
+            { key: 'team', type: 'eq', value: 'core' },
+            { key: 'year', type: 'gte', value: 2024 },
+          ],
+        },
+      },
+    ]);
+    expect(result.toolChoice).toEqual({ type: 'file_search' });
+  });
+
+  it('should convert the image generation provider tool', () => {
+    const result = prepareTools({
+      tools: [
+        {
+          type: 'provider',
+          id: 'nordlys.image_generation',
+          name: 'image',
+          args: { outputFormat: 'webp', partialImages: 2, size: '1024x1024' },
+        },
+      ],
+      toolChoice: { type: 'tool', toolName: 'image' },
+    });
+
+    expect(result.tools).toEqual([
+      {
+        type: 'image_generation',
+        output_format: 'webp',
+        partial_images: 2,
+        size: '1024x1024',
+      },
+    ]);
+    expect(result.toolChoice).toEqual({ type: 'image_generation' });
+  });
+
+  it('should warn about unknown provider tools', () => {
+    const result = prepareTools({
+      tools: [
+        {
+          type: 'provider',
+          id: 'other.code_interpreter',
+          name: 'code',
+          args: {},
+        },
+      ],
+    });
+
+    expect(result.tools).toEqual([]);
+    expect(result.toolWarnings).toEqual([
+      { type: 'unsupported', feature: 'tool: code' },
+    ]);
+  });
+});
@@ -3,6 +3,13 @@ import {
   type SharedV3Warning,
   UnsupportedFunctionalityError,
 } from '@ai-sdk/provider';
+import { fileSearchArgsSchema } from './nordlys-file-search-tool';
+import { imageGenerationArgsSchema } from './nordlys-image-generation-tool';
+import type {
+  NordlysToolChoiceUnion,
+  NordlysToolUnion,
+} from './nordlys-responses-types';
+import { webSearchArgsSchema } from './nordlys-web-search-tool';
 
 export function prepareTools({
   tools,
@@ -11,21 +18,8 @@ export function prepareTools({
   tools: LanguageModelV3CallOptions['tools'];
   toolChoice?: LanguageModelV3CallOptions['toolChoice'];
 }): {
-  tools:
-    | undefined
-    | Array<{
-        type: 'function';
-        name: string;
-        description: string | undefined;
-        parameters: unknown;
-        strict?: boolean;
-      }>;
-  toolChoice:
-    | { type: 'function'; name: string }
-    | 'auto'
-    | 'none'
-    | 'required'
-    | undefined;
+  tools: undefined | NordlysToolUnion[];
+  toolChoice: NordlysToolChoiceUnion | undefined;
   toolWarnings: SharedV3Warning[];
 } {
   // when the tools array is empty, change it to undefined to prevent errors:
@@ -37,19 +31,71 @@ export function prepareTools({
     return { tools: undefined, toolChoice: undefined, toolWarnings };
   }
 
-  const openaiCompatTools: Array<{
-    type: 'function';
-    name: string;
-    description: string | undefined;
-    parameters: unknown;
-    strict?: boolean;
-  }> = [];
+  const nordlysTools: NordlysToolUnion[] = [];
 
   for (const tool of tools) {
     if (tool.type === 'provider') {
-      toolWarnings.push({ type: 'unsupported', feature: `tool: ${tool.name}` });
+      switch (tool.id) {
+        case 'nordlys.web_search': {
+          const args = webSearchArgsSchema.parse(tool.args);
+          nordlysTools.push({
+            type: 'web_search',
+            ...(args.searchContextSize && {
+              search_context_size: args.searchContextSize,
+            }),
+            ...(args.userLocation && { user_location: args.userLocation }),
+          });
+          break;
+        }
+        case 'nordlys.file_search': {
+          const args = fileSearchArgsSchema.parse(tool.args);
+          nordlysTools.push({
+            type: 'file_search',
+            vector_store_ids: args.vectorStoreIds,
+            ...(args.maxNumResults != null && {
+              max_num_results: args.maxNumResults,
+            }),
+            ...(args.ranking && {
+              ranking_options: {
+                ...(args.ranking.ranker != null && {
+                  ranker: args.ranking.ranker,
+                }),
+                ...(args.ranking.scoreThreshold != null && {
+                  score_threshold: args.ranking.scoreThreshold,
+                }),
+              },
+            }),
+            ...(args.filters && { filters: args.filters }),
+          });
+          break;
+        }
+        case 'nordlys.image_generation': {
+          const args = imageGenerationArgsSchema.parse(tool.args);
+          nordlysTools.push({
+            type: 'image_generation',
+            ...(args.background && { background: args.background }),
+            ...(args.outputCompression != null && {
+              output_compression: args.outputCompression,
+            }),
+            ...(args.outputFormat && { output_format: args.outputFormat }),
+            ...(args.partialImages != null && {
+              partial_images: args.partialImages,
+            }),
+            ...(args.quality && { quality: args.quality }),
+            ...(args.size && { size: args.size }),
+          });
+          break;
+        }
+        default: {
+          toolWarnings.push({
+            type: 'unsupported',
+            feature: `tool: ${tool.name}`,
+          });
+          break;
+        }
+      }
     } else if (tool.type === 'function') {
-      openaiCompatTools.push({
+      nordlysTools.push({
         type: 'function',
         name: tool.name,
         description: tool.description,
@@ -60,7 +106,7 @@ export function prepareTools({
   }
 
   if (toolChoice == null) {
-    return { tools: openaiCompatTools, toolChoice: undefined, toolWarnings };
+    return { tools: nordlysTools, toolChoice: undefined, toolWarnings };
   }
 
   const type = toolChoice.type;
@@ -69,16 +115,41 @@ export function prepareTools({
     case 'auto':
     case 'none':
     case 'required':
-      return { tools: openaiCompatTools, toolChoice: type, toolWarnings };
-    case 'tool':
+      return { tools: nordlysTools, toolChoice: type, toolWarnings };
+    case 'tool': {
+      const selectedTool = tools.find(
+        (tool) => tool.name === toolChoice.toolName
+      );
+
+      if (selectedTool?.type === 'provider') {
+        switch (selectedTool.id) {
+          case 'nordlys.web_search':
+            return {
+              tools: nordlysTools,
+              toolChoice: { type: 'web_search' },
+              toolWarnings,
+            };
+          case 'nordlys.file_search':
+            return {
+              tools: nordlysTools,
+              toolChoice: { type: 'file_search' },
+              toolWarnings,
+            };
+          case 'nordlys.image_generation':
+            return {
+              tools: nordlysTools,
+              toolChoice: { type: 'image_generation' },
+              toolWarnings,
+            };
+        }
+      }
+
       return {
-        tools: openaiCompatTools,
-        toolChoice: {
-          type: 'function',
-          name: toolChoice.toolName,
-        },
+        tools: nordlysTools,
+        toolChoice: { type: 'function', name: toolChoice.toolName },
         toolWarnings,
       };
+    }
     default: {
       const _exhaustiveCheck: never = type;
       throw new UnsupportedFunctionalityError({
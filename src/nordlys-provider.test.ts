@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { createNordlys, nordlys } from './nordlys-provider';
 
 describe('nordlysProvider', () => {
@@ -35,20 +35,107 @@ describe('nordlysProvider', () => {
     expect(model.provider).toBe('nordlys.chat');
   });
 
-  it('should throw for embeddingModel', () => {
+  it('should create a chat model with fallback models', () => {
     const provider = createNordlys({
       apiKey: 'test-key',
       baseURL: 'https://example.com',
     });
-    expect(() => provider.embeddingModel('embed-model')).toThrow();
+    const model = provider.withFallback(['nordlys/hypernova', 'nordlys/nova']);
+    expect(model.modelId).toBe('nordlys/hypernova');
+    expect(model.provider).toBe('nordlys.chat');
+  });
+
+  it('should list models', async () => {
+    const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          object: 'list',
+          data: [{ id: 'nordlys/hypernova', object: 'model' }],
+        }),
+        { headers: { 'content-type': 'application/json' } }
+      )
+    );
+    const provider = createNordlys({
+      apiKey: 'test-key',
+      baseURL: 'https://example.com',
+      fetch: mockFetch,
+    });
+
+    const models = await provider.listModels();
+
+    expect(models.map((model) => model.id)).toEqual(['nordlys/hypernova']);
+    expect(mockFetch.mock.calls[0]?.[0]).toBe('https://example.com/models');
+    expect(
+      (mockFetch.mock.calls[0]?.[1]?.headers as Record<string, string>)
+        ?.authorization
+    ).toBe('Bearer test-key');
   });
 
-  it('should throw for imageModel', () => {
+  it('should create an embedding model', () => {
     const provider = createNordlys({
       apiKey: 'test-key',
       baseURL: 'https://example.com',
     });
-    expect(() => provider.imageModel('image-model')).toThrow();
+    const model = provider.embeddingModel('nordlys/embed', {
+      maxEmbeddingsPerCall: 16,
+    });
+    expect(model.modelId).toBe('nordlys/embed');
+    expect(model.provider).toBe('nordlys.embedding');
+    expect(model.maxEmbeddingsPerCall).toBe(16);
+    expect(provider.embedding('nordlys/embed').modelId).toBe('nordlys/embed');
+  });
+
+  it('should create an image model', () => {
+    const provider = createNordlys({
+      apiKey: 'test-key',
+      baseURL: 'https://example.com',
+    });
+    const model = provider.imageModel('nordlys/image', {
+      maxImagesPerCall: 4,
+    });
+    expect(model.modelId).toBe('nordlys/image');
+    expect(model.provider).toBe('nordlys.image');
+    expect(model.maxImagesPerCall).toBe(4);
+    expect(provider.image('nordlys/image').modelId).toBe('nordlys/image');
+  });
+
+  it('should create a transcription model', () => {
+    const provider = createNordlys({
+      apiKey: 'test-key',
+      baseURL: 'https://example.com',
+    });
+    const model = provider.transcription('nordlys/transcribe');
+    expect(model.modelId).toBe('nordlys/transcribe');
+    expect(model.provider).toBe('nordlys.transcription');
+    expect(provider.transcriptionModel('nordlys/transcribe').modelId).toBe(
+      'nordlys/transcribe'
+    );
+  });
+
+  it('should create a speech model', () => {
+    const provider = createNordlys({
+      apiKey: 'test-key',
+      baseURL: 'https://example.com',
+    });
+    const model = provider.speech('nordlys/speech');
+    expect(model.modelId).toBe('nordlys/speech');
+    expect(model.provider).toBe('nordlys.speech');
+    expect(provider.speechModel('nordlys/speech').modelId).toBe(
+      'nordlys/speech'
+    );
+  });
+
+  it('should expose the web search provider tool', () => {
+    const provider = createNordlys({
+      apiKey: 'test-key',
+      baseURL: 'https://example.com',
+    });
+    const webSearch = provider.tools.webSearch({ searchContextSize: 'low' });
+    expect(webSearch).toMatchObject({
+      type: 'provider',
+      id: 'nordlys.web_search',
+      args: { searchContextSize: 'low' },
+    });
   });
 
   it('should provide a default instance', () => {
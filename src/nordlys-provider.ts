@@ -1,36 +1,136 @@
 import type {
   EmbeddingModelV3,
+  ImageModelV3,
   LanguageModelV3,
   ProviderV3,
+  SpeechModelV3,
+  TranscriptionModelV3,
 } from '@ai-sdk/provider';
-import { NoSuchModelError } from '@ai-sdk/provider';
 import type { FetchFunction } from '@ai-sdk/provider-utils';
 import { loadApiKey, withoutTrailingSlash } from '@ai-sdk/provider-utils';
 import { NordlysChatLanguageModel } from './nordlys-chat-language-model';
 import type { NordlysChatSettings } from './nordlys-chat-options';
+import { NordlysEmbeddingModel } from './nordlys-embedding-model';
+import type { NordlysEmbeddingSettings } from './nordlys-embedding-options';
+import { NordlysImageModel } from './nordlys-image-model';
+import type { NordlysImageSettings } from './nordlys-image-options';
+import {
+  listNordlysModels,
+  type NordlysChatModelId,
+  type NordlysModelInfo,
+} from './nordlys-models';
+import type { NordlysRetrySettings } from './nordlys-retry';
+import { NordlysSpeechModel } from './nordlys-speech-model';
+import { nordlysTools } from './nordlys-tools';
+import { NordlysTranscriptionModel } from './nordlys-transcription-model';
 
-export type NordlysChatModelId = string;
+export type { NordlysChatModelId };
+
+export type NordlysEmbeddingModelId = string;
+
+export type NordlysImageModelId = string;
+
+export type NordlysTranscriptionModelId = string;
+
+export type NordlysSpeechModelId = string;
 
 export interface NordlysProvider extends ProviderV3 {
-  (modelId: string, settings?: NordlysChatSettings): LanguageModelV3;
+  (
+    modelId: NordlysChatModelId,
+    settings?: NordlysChatSettings
+  ): LanguageModelV3;
 
   /**
    * Creates a model for text generation with Nordlys models.
    */
   languageModel: (
-    modelId: string,
+    modelId: NordlysChatModelId,
     settings?: NordlysChatSettings
   ) => LanguageModelV3;
 
   /**
    * Creates a chat model with Nordlys models.
    */
-  chat: (modelId: string, settings?: NordlysChatSettings) => LanguageModelV3;
+  chat: (
+    modelId: NordlysChatModelId,
+    settings?: NordlysChatSettings
+  ) => LanguageModelV3;
+
+  /**
+   * Creates a chat model that uses the first model id and falls back to the
+   * following ones, in order, when a request fails with a retryable error.
+   */
+  withFallback: (
+    modelIds: [NordlysChatModelId, ...NordlysChatModelId[]],
+    settings?: Omit<NordlysChatSettings, 'fallbackModels'>
+  ) => LanguageModelV3;
+
+  /**
+   * Creates a model for text embeddings.
+   */
+  embeddingModel: (
+    modelId: NordlysEmbeddingModelId,
+    settings?: NordlysEmbeddingSettings
+  ) => EmbeddingModelV3;
+
+  /**
+   * Creates a model for text embeddings.
+   */
+  embedding: (
+    modelId: NordlysEmbeddingModelId,
+    settings?: NordlysEmbeddingSettings
+  ) => EmbeddingModelV3;
+
+  /**
+   * Creates a model for image generation.
+   */
+  imageModel: (
+    modelId: NordlysImageModelId,
+    settings?: NordlysImageSettings
+  ) => ImageModelV3;
+
+  /**
+   * Creates a model for image generation.
+   */
+  image: (
+    modelId: NordlysImageModelId,
+    settings?: NordlysImageSettings
+  ) => ImageModelV3;
+
+  /**
+   * Creates a model for speech-to-text transcription.
+   */
+  transcriptionModel: (
+    modelId: NordlysTranscriptionModelId
+  ) => TranscriptionModelV3;
+
+  /**
+   * Creates a model for speech-to-text transcription.
+   */
+  transcription: (modelId: NordlysTranscriptionModelId) => TranscriptionModelV3;
+
+  /**
+   * Creates a model for text-to-speech generation.
+   */
+  speechModel: (modelId: NordlysSpeechModelId) => SpeechModelV3;
+
+  /**
+   * Creates a model for text-to-speech generation.
+   */
+  speech: (modelId: NordlysSpeechModelId) => SpeechModelV3;
+
+  /**
+   * Lists the models available to your account, with their context window,
+   * modalities, tool and reasoning support, and pricing.
+   */
+  listModels: (options?: {
+    abortSignal?: AbortSignal;
+  }) => Promise<NordlysModelInfo[]>;
 
   /**
-   * Text embedding is not currently supported by the Nordlys provider.
+   * Provider-executed tools that run on the Nordlys platform.
    */
-  embeddingModel: (modelId: string) => EmbeddingModelV3;
+  tools: typeof nordlysTools;
 }
 
 export interface NordlysProviderSettings {
@@ -56,6 +156,14 @@ export interface NordlysProviderSettings {
    * or to provide a custom fetch implementation for e.g. testing.
    */
   fetch?: FetchFunction;
+
+  /**
+   * Retry policy for failed requests. Only errors classified as retryable
+   * (rate limits, overloaded servers, routing failures) are retried, and
+   * `retry-after` headers take precedence over the backoff delay.
+   * Disabled when not set.
+   */
+  retry?: NordlysRetrySettings;
 }
 
 /**
@@ -73,19 +181,67 @@ export function createNordlys(
       environmentVariableName: 'NORDLYS_API_KEY',
       description: 'Nordlys',
     })}`,
-    'Content-Type': 'application/json',
     ...options.headers,
   });
 
-  const createChatModel = (modelId: string, settings?: NordlysChatSettings) =>
+  const createChatModel = (
+    modelId: NordlysChatModelId,
+    settings?: NordlysChatSettings
+  ) =>
     new NordlysChatLanguageModel(modelId, settings, {
       provider: 'nordlys.chat',
       baseURL,
       headers: getHeaders,
       fetch: options.fetch,
+      retry: options.retry,
+    });
+
+  const createEmbeddingModel = (
+    modelId: NordlysEmbeddingModelId,
+    settings?: NordlysEmbeddingSettings
+  ) =>
+    new NordlysEmbeddingModel(modelId, settings, {
+      provider: 'nordlys.embedding',
+      baseURL,
+      headers: getHeaders,
+      fetch: options.fetch,
+      retry: options.retry,
+    });
+
+  const createImageModel = (
+    modelId: NordlysImageModelId,
+    settings?: NordlysImageSettings
+  ) =>
+    new NordlysImageModel(modelId, settings, {
+      provider: 'nordlys.image',
+      baseURL,
+      headers: getHeaders,
+      fetch: options.fetch,
+      retry: options.retry,
+    });
+
+  const createTranscriptionModel = (modelId: NordlysTranscriptionModelId) =>
+    new NordlysTranscriptionModel(modelId, {
+      provider: 'nordlys.transcription',
+      baseURL,
+      headers: getHeaders,
+      fetch: options.fetch,
+      retry: options.retry,
     });
 
-  const provider = function (modelId: string, settings?: NordlysChatSettings) {
+  const createSpeechModel = (modelId: NordlysSpeechModelId) =>
+    new NordlysSpeechModel(modelId, {
+      provider: 'nordlys.speech',
+      baseURL,
+      headers: getHeaders,
+      fetch: options.fetch,
+      retry: options.retry,
+    });
+
+  const provider = function (
+    modelId: NordlysChatModelId,
+    settings?: NordlysChatSettings
+  ) {
     if (new.target) {
       throw new Error(
         'The Nordlys model function cannot be called with the new keyword.'
@@ -97,14 +253,33 @@ export function createNordlys(
 
   provider.languageModel = createChatModel;
   provider.chat = createChatModel;
+  provider.withFallback = (
+    [modelId, ...fallbackModels]: [NordlysChatModelId, ...NordlysChatModelId[]],
+    settings?: Omit<NordlysChatSettings, 'fallbackModels'>
+  ) => createChatModel(modelId, { ...settings, fallbackModels });
 
-  provider.embeddingModel = (modelId: string) => {
-    throw new NoSuchModelError({ modelId, modelType: 'embeddingModel' });
-  };
+  provider.embeddingModel = createEmbeddingModel;
+  provider.embedding = createEmbeddingModel;
 
-  provider.imageModel = (modelId: string) => {
-    throw new NoSuchModelError({ modelId, modelType: 'imageModel' });
-  };
+  provider.imageModel = createImageModel;
+  provider.image = createImageModel;
+
+  provider.transcriptionModel = createTranscriptionModel;
+  provider.transcription = createTranscriptionModel;
+
+  provider.speechModel = createSpeechModel;
+  provider.speech = createSpeechModel;
+
+  provider.listModels = (listOptions?: { abortSignal?: AbortSignal }) =>
+    listNordlysModels({
+      baseURL,
+      headers: getHeaders(),
+      fetch: options.fetch,
+      retry: options.retry,
+      abortSignal: listOptions?.abortSignal,
+    });
+
+  provider.tools = nordlysTools;
 
   provider.specificationVersion = 'v3' as const;
 
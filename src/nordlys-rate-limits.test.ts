@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseNordlysRateLimits } from './nordlys-rate-limits';
+
+describe('parseNordlysRateLimits', () => {
+  it('should parse request and token limits', () => {
+    expect(
+      parseNordlysRateLimits({
+        'x-ratelimit-limit-requests': '60',
+        'x-ratelimit-remaining-requests': '59',
+        'x-ratelimit-reset-requests': '1s',
+        'x-ratelimit-limit-tokens': '150000',
+        'x-ratelimit-remaining-tokens': '149984',
+        'x-ratelimit-reset-tokens': '6ms',
+      })
+    ).toEqual({
+      requests: { limit: 60, remaining: 59, reset: '1s' },
+      tokens: { limit: 150000, remaining: 149984, reset: '6ms' },
+    });
+  });
+
+  it('should only include the headers that are present', () => {
+    expect(
+      parseNordlysRateLimits({ 'x-ratelimit-remaining-tokens': '10' })
+    ).toEqual({ tokens: { remaining: 10 } });
+  });
+
+  it('should return undefined without rate limit headers', () => {
+    expect(
+      parseNordlysRateLimits({ 'content-type': 'application/json' })
+    ).toBeUndefined();
+    expect(parseNordlysRateLimits(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,30 @@
+import type { JSONObject } from '@ai-sdk/provider';
+
+/**
+ * Parses `x-ratelimit-*` response headers into
+ * `{ requests: { limit, remaining, reset }, tokens: { ... } }`.
+ * Returns undefined when the response contains no rate limit headers.
+ */
+export function parseNordlysRateLimits(
+  headers: Record<string, string> | undefined
+): JSONObject | undefined {
+  const rateLimits: JSONObject = {};
+
+  for (const kind of ['requests', 'tokens']) {
+    const limit = headers?.[`x-ratelimit-limit-${kind}`];
+    const remaining = headers?.[`x-ratelimit-remaining-${kind}`];
+    const reset = headers?.[`x-ratelimit-reset-${kind}`];
+
+    if (limit == null && remaining == null && reset == null) {
+      continue;
+    }
+
+    rateLimits[kind] = {
+      ...(limit != null && { limit: Number(limit) }),
+      ...(remaining != null && { remaining: Number(remaining) }),
+      ...(reset != null && { reset }),
+    };
+  }
+
+  return Object.keys(rateLimits).length > 0 ? rateLimits : undefined;
+}
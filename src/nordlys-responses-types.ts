@@ -15,9 +15,12 @@
 export type NordlysResponseInputItemUnion =
   | NordlysResponseInputSystemMessage
   | NordlysResponseInputUserMessage
+  | NordlysResponseInputAssistantMessage
+  | NordlysResponseInputReasoning
   | NordlysResponseInputAudio
   | NordlysResponseInputFunctionCall
-  | NordlysResponseInputFunctionCallOutput;
+  | NordlysResponseInputFunctionCallOutput
+  | NordlysResponseInputItemReference;
 
 /**
  * System message input item (Responses API format - no type field, content is string)
@@ -35,6 +38,25 @@ export type NordlysResponseInputUserMessage = {
   content: NordlysResponseInputContentUnion[];
 };
 
+/**
+ * Assistant message input item (previous model output replayed in multi-turn conversations)
+ */
+export interface NordlysResponseInputAssistantMessage {
+  type: 'message';
+  role: 'assistant';
+  content: NordlysResponseOutputText[];
+}
+
+/**
+ * Reasoning input item (previous reasoning output replayed to keep reasoning context)
+ */
+export interface NordlysResponseInputReasoning {
+  type: 'reasoning';
+  id: string;
+  summary: Array<{ type: 'summary_text'; text: string }>;
+  encrypted_content?: string;
+}
+
 /**
  * Audio input item
  */
@@ -81,6 +103,14 @@ export interface NordlysResponseInputFunctionCallOutput {
   output: string | Array<{ type: string; [key: string]: unknown }>;
 }
 
+/**
+ * Reference to an item of a stored response, e.g. a provider-executed tool call
+ */
+export interface NordlysResponseInputItemReference {
+  type: 'item_reference';
+  id: string;
+}
+
 /**
  * Union type for input content
  * Note: Audio is NOT a content type - it's a separate input item
@@ -101,19 +131,97 @@ export interface NordlysResponseInputText {
 /**
  * Tool union type (Responses API format - flat structure)
  */
-export type NordlysToolUnion = {
+export type NordlysToolUnion =
+  | NordlysFunctionTool
+  | NordlysWebSearchTool
+  | NordlysFileSearchTool
+  | NordlysImageGenerationTool;
+
+/**
+ * Function tool (executed by the client)
+ */
+export interface NordlysFunctionTool {
   type: 'function';
   name: string;
   description?: string;
   parameters: unknown;
   strict?: boolean;
-};
+}
+
+/**
+ * Web search tool (executed by Nordlys)
+ */
+export interface NordlysWebSearchTool {
+  type: 'web_search';
+  search_context_size?: 'low' | 'medium' | 'high';
+  user_location?: {
+    type: 'approximate';
+    city?: string;
+    region?: string;
+    country?: string;
+    timezone?: string;
+  };
+}
+
+/**
+ * File search tool (executed by Nordlys)
+ */
+export interface NordlysFileSearchTool {
+  type: 'file_search';
+  vector_store_ids: string[];
+  max_num_results?: number;
+  ranking_options?: {
+    ranker?: string;
+    score_threshold?: number;
+  };
+  filters?: NordlysFileSearchFilter;
+}
+
+/**
+ * Image generation tool (executed by Nordlys)
+ */
+export interface NordlysImageGenerationTool {
+  type: 'image_generation';
+  background?: 'auto' | 'opaque' | 'transparent';
+  output_compression?: number;
+  output_format?: 'png' | 'jpeg' | 'webp';
+  partial_images?: number;
+  quality?: 'auto' | 'low' | 'medium' | 'high';
+  size?: string;
+}
+
+/**
+ * Attribute filter for file search
+ */
+export type NordlysFileSearchFilter =
+  | NordlysFileSearchComparisonFilter
+  | NordlysFileSearchCompoundFilter;
+
+/**
+ * Compares a file attribute against a value
+ */
+export interface NordlysFileSearchComparisonFilter {
+  key: string;
+  type: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: string | number | boolean;
+}
+
+/**
+ * Combines multiple filters with `and` / `or`
+ */
+export interface NordlysFileSearchCompoundFilter {
+  type: 'and' | 'or';
+  filters: NordlysFileSearchFilter[];
+}
 
 /**
  * Tool choice union type (Responses API format - flat structure)
  */
 export type NordlysToolChoiceUnion =
   | { type: 'function'; name: string }
+  | { type: 'web_search' }
+  | { type: 'file_search' }
+  | { type: 'image_generation' }
   | 'auto'
   | 'none'
   | 'required';
@@ -232,6 +340,36 @@ export interface NordlysReasoningParam {
   summary?: 'auto' | 'concise' | 'detailed';
 }
 
+/**
+ * Predicted output parameter
+ */
+export interface NordlysPredictionParam {
+  type: 'content';
+  content: string | Array<{ type: 'text'; text: string }>;
+}
+
+/**
+ * Text output format (Responses API `text.format`)
+ */
+export type NordlysResponseTextFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      name: string;
+      schema: unknown;
+      description?: string;
+      strict?: boolean;
+    };
+
+/**
+ * Text output configuration parameter
+ */
+export interface NordlysResponseTextConfig {
+  format?: NordlysResponseTextFormat;
+  verbosity?: 'low' | 'medium' | 'high';
+}
+
 /**
  * Request payload for Nordlys Responses API
  */
@@ -252,24 +390,50 @@ export interface NordlysResponseRequest {
   logit_bias?: Record<string, number>;
   user?: string;
   audio?: V2ChatCompletionAudioParam;
-  logprobs?: boolean;
   metadata?: SharedMetadata;
   modalities?: string[];
   parallel_tool_calls?: boolean;
-  prediction?: V2ChatCompletionPredictionContentParam;
+  prediction?: NordlysPredictionParam;
   reasoning?: NordlysReasoningParam;
   response_format?: V2ChatCompletionNewParamsResponseFormatUnion;
   seed?: number;
   service_tier?: string;
   store?: boolean;
   top_logprobs?: number;
-  web_search_options?: V2ChatCompletionNewParamsWebSearchOptions;
   stream?: boolean;
   stream_options?: V2ChatCompletionStreamOptionsParam;
   strict_json_schema?: boolean;
   text_verbosity?: 'low' | 'medium' | 'high';
   include?: string[];
   truncation?: 'auto' | 'disabled';
+  text?: NordlysResponseTextConfig;
+  previous_response_id?: string;
+  background?: boolean;
+  routing?: NordlysRoutingParam;
+}
+
+/**
+ * Capabilities of the underlying models used in routing preferences
+ */
+export type NordlysModelCapability =
+  | 'vision'
+  | 'audio'
+  | 'tools'
+  | 'reasoning'
+  | 'structured_outputs';
+
+/**
+ * Routing preferences for the Mixture of Models router
+ */
+export interface NordlysRoutingParam {
+  optimize_for?: 'cost' | 'latency' | 'quality';
+  max_price_per_million_tokens?: number;
+  allowed_models?: string[];
+  excluded_models?: string[];
+  allowed_providers?: string[];
+  excluded_providers?: string[];
+  required_capabilities?: NordlysModelCapability[];
+  excluded_capabilities?: NordlysModelCapability[];
 }
 
 // ============================================================================
@@ -284,7 +448,8 @@ export type NordlysResponseOutputItemUnion =
   | NordlysResponseReasoningItem
   | NordlysResponseFunctionToolCall
   | NordlysResponseFileSearchToolCall
-  | NordlysResponseFunctionWebSearch;
+  | NordlysResponseFunctionWebSearch
+  | NordlysResponseImageGenerationCall;
 
 /**
  * Output message
@@ -303,6 +468,7 @@ export interface NordlysResponseOutputMessage {
  */
 export type NordlysResponseOutputMessageContentUnion =
   | NordlysResponseOutputText
+  | NordlysResponseOutputAudio
   | NordlysResponseRefusal;
 
 /**
@@ -311,6 +477,62 @@ export type NordlysResponseOutputMessageContentUnion =
 export interface NordlysResponseOutputText {
   type: 'output_text';
   text: string;
+  annotations?: NordlysResponseOutputTextAnnotation[];
+  logprobs?: NordlysResponseOutputTextLogprob[];
+}
+
+/**
+ * Log probability of an output token
+ * (when `include` contains 'message.output_text.logprobs')
+ */
+export interface NordlysResponseOutputTextLogprob {
+  token: string;
+  logprob: number;
+  bytes?: number[] | null;
+  top_logprobs?: Array<{
+    token: string;
+    logprob: number;
+    bytes?: number[] | null;
+  }> | null;
+}
+
+/**
+ * Output audio content (when `modalities` includes 'audio')
+ * `data` holds the base64 encoded audio in the requested format.
+ */
+export interface NordlysResponseOutputAudio {
+  type: 'output_audio';
+  data: string;
+  transcript?: string;
+  format?: string;
+}
+
+/**
+ * Union type for output text annotations
+ */
+export type NordlysResponseOutputTextAnnotation =
+  | NordlysResponseUrlCitation
+  | NordlysResponseFileCitation;
+
+/**
+ * URL citation annotation (web search results)
+ */
+export interface NordlysResponseUrlCitation {
+  type: 'url_citation';
+  url: string;
+  title?: string;
+  start_index?: number;
+  end_index?: number;
+}
+
+/**
+ * File citation annotation (file search results)
+ */
+export interface NordlysResponseFileCitation {
+  type: 'file_citation';
+  file_id: string;
+  filename?: string;
+  index?: number;
 }
 
 /**
@@ -355,18 +577,46 @@ export interface NordlysResponseFunctionToolCall {
  * File search tool call output item
  */
 export interface NordlysResponseFileSearchToolCall {
-  type: 'file_search';
+  type: 'file_search_call';
   id: string;
-  status: 'in_progress' | 'completed' | 'incomplete';
+  status: 'in_progress' | 'searching' | 'completed' | 'incomplete' | 'failed';
+  queries?: string[];
+  results?: Array<{
+    attributes?: Record<string, string | number | boolean> | null;
+    file_id: string;
+    filename: string;
+    score: number;
+    text: string;
+  }> | null;
+}
+
+/**
+ * Image generation tool call output item
+ * `result` holds the base64 encoded image once the call is completed.
+ */
+export interface NordlysResponseImageGenerationCall {
+  type: 'image_generation_call';
+  id: string;
+  status: 'in_progress' | 'generating' | 'completed' | 'incomplete' | 'failed';
+  result?: string | null;
+  output_format?: 'png' | 'jpeg' | 'webp' | null;
+  revised_prompt?: string | null;
 }
 
 /**
  * Web search tool call output item
  */
 export interface NordlysResponseFunctionWebSearch {
-  type: 'web_search';
+  type: 'web_search_call';
   id: string;
-  status: 'in_progress' | 'completed' | 'incomplete';
+  status: 'in_progress' | 'searching' | 'completed' | 'incomplete' | 'failed';
+  action?: {
+    type: string;
+    query?: string | null;
+    url?: string | null;
+    pattern?: string | null;
+    sources?: Array<{ type: string; url: string }> | null;
+  } | null;
 }
 
 /**
@@ -403,11 +653,14 @@ export interface NordlysResponse {
   provider?: string;
   service_tier?: string;
   system_fingerprint?: string;
+  incomplete_details?: {
+    reason?: string | null;
+  } | null;
   error?: {
     message: string;
     type: string;
     param?: unknown;
-    code?: unknown;
+    code?: string | number | null;
   } | null;
 }
 
@@ -475,6 +728,11 @@ export type NordlysResponseStreamEventUnion =
   | NordlysResponseOutputItemDoneEvent
   | NordlysResponseTextDeltaEvent
   | NordlysResponseOutputTextDoneEvent
+  | NordlysResponseOutputTextAnnotationAddedEvent
+  | NordlysResponseImageGenerationPartialImageEvent
+  | NordlysResponseOutputAudioDeltaEvent
+  | NordlysResponseOutputAudioTranscriptDeltaEvent
+  | NordlysResponseOutputAudioTranscriptDoneEvent
   | NordlysResponseReasoningTextDeltaEvent
   | NordlysResponseFunctionCallArgumentsDeltaEvent
   | NordlysResponseFunctionCallArgumentsDoneEvent
@@ -485,6 +743,8 @@ export type NordlysResponseStreamEventUnion =
   | NordlysResponseReasoningSummaryTextDoneEvent
   | NordlysResponseReasoningSummaryPartDoneEvent
   | NordlysResponseCompletedEvent
+  | NordlysResponseFailedEvent
+  | NordlysResponseIncompleteEvent
   | NordlysResponseErrorEvent;
 
 /**
@@ -533,6 +793,38 @@ export type NordlysResponseOutputItemDoneEvent =
       model?: string;
       sequence_number?: number;
     }
+  | {
+      type: 'response.output_item.done';
+      item: NordlysResponseFunctionWebSearch;
+      output_index: number;
+      model?: string;
+      sequence_number?: number;
+    }
+  | {
+      type: 'response.output_item.done';
+      item: NordlysResponseFileSearchToolCall;
+      output_index: number;
+      model?: string;
+      sequence_number?: number;
+    }
+  | {
+      type: 'response.output_item.done';
+      item: NordlysResponseImageGenerationCall;
+      output_index: number;
+      model?: string;
+      sequence_number?: number;
+    }
+  | {
+      type: 'response.output_item.done';
+      item: {
+        id: string;
+        type: 'reasoning';
+        encrypted_content?: string | null;
+      };
+      output_index: number;
+      model?: string;
+      sequence_number?: number;
+    }
   | {
       type: 'response.output_item.done';
       item: {
@@ -556,6 +848,7 @@ export interface NordlysResponseTextDeltaEvent {
   item_id: string;
   output_index: number;
   content_index: number;
+  logprobs?: NordlysResponseOutputTextLogprob[];
 }
 
 /**
@@ -567,11 +860,73 @@ export interface NordlysResponseOutputTextDoneEvent {
   content_index: number;
   output_index: number;
   text: string;
-  logprobs?: unknown[];
+  logprobs?: NordlysResponseOutputTextLogprob[];
   model?: string;
   sequence_number?: number;
 }
 
+/**
+ * Output text annotation added event
+ */
+export interface NordlysResponseOutputTextAnnotationAddedEvent {
+  type: 'response.output_text.annotation.added';
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  annotation_index?: number;
+  annotation: NordlysResponseOutputTextAnnotation;
+  sequence_number?: number;
+}
+
+/**
+ * Image generation partial image event
+ */
+export interface NordlysResponseImageGenerationPartialImageEvent {
+  type: 'response.image_generation_call.partial_image';
+  item_id: string;
+  output_index: number;
+  partial_image_index: number;
+  partial_image_b64: string;
+  output_format?: 'png' | 'jpeg' | 'webp';
+  sequence_number?: number;
+}
+
+/**
+ * Output audio delta event (base64 encoded audio chunk)
+ */
+export interface NordlysResponseOutputAudioDeltaEvent {
+  type: 'response.output_audio.delta';
+  item_id: string;
+  output_index: number;
+  content_index?: number;
+  delta: string;
+  sequence_number?: number;
+}
+
+/**
+ * Output audio transcript delta event
+ */
+export interface NordlysResponseOutputAudioTranscriptDeltaEvent {
+  type: 'response.output_audio_transcript.delta';
+  item_id: string;
+  output_index: number;
+  content_index?: number;
+  delta: string;
+  sequence_number?: number;
+}
+
+/**
+ * Output audio transcript done event
+ */
+export interface NordlysResponseOutputAudioTranscriptDoneEvent {
+  type: 'response.output_audio_transcript.done';
+  item_id: string;
+  output_index: number;
+  content_index?: number;
+  transcript?: string;
+  sequence_number?: number;
+}
+
 /**
  * Reasoning text delta event
  */
@@ -612,6 +967,22 @@ export interface NordlysResponseCompletedEvent {
   response: NordlysResponse;
 }
 
+/**
+ * Response failed event
+ */
+export interface NordlysResponseFailedEvent {
+  type: 'response.failed';
+  response: NordlysResponse;
+}
+
+/**
+ * Response incomplete event
+ */
+export interface NordlysResponseIncompleteEvent {
+  type: 'response.incomplete';
+  response: NordlysResponse;
+}
+
 /**
  * Content part added event
  */
@@ -673,6 +1044,6 @@ export interface NordlysResponseErrorEvent {
     message: string;
     type: string;
     param?: unknown;
-    code?: unknown;
+    code?: string | number | null;
   };
 }
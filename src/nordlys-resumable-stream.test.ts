@@ -0,0 +1,160 @@
+import type { ParseResult } from '@ai-sdk/provider-utils';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createResumableEventStream,
+  type NordlysResumableStreamChunk,
+} from './nordlys-resumable-stream';
+
+type TestEvent = { type: string; sequence_number?: number };
+
+const toParseResult = (event: TestEvent): ParseResult<TestEvent> => ({
+  success: true,
+  value: event,
+  rawValue: event,
+});
+
+const created = {
+  type: 'response.created',
+  sequence_number: 0,
+  response: { id: 'resp-1' },
+};
+
+const delta = (sequenceNumber: number) => ({
+  type: 'response.output_text.delta',
+  sequence_number: sequenceNumber,
+});
+
+// delivers the given events one per pull, then fails like a dropped connection
+const createSource = (events: TestEvent[], error?: Error) => {
+  let index = 0;
+  return new ReadableStream<ParseResult<TestEvent>>({
+    pull(controller) {
+      if (index < events.length) {
+        controller.enqueue(toParseResult(events[index++]));
+      } else if (error) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    },
+  });
+};
+
+const readAll = async (
+  stream: ReadableStream<NordlysResumableStreamChunk<TestEvent>>
+) => {
+  const chunks: NordlysResumableStreamChunk<TestEvent>[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks;
+};
+
+describe('createResumableEventStream', () => {
+  it('should pass events through when the stream completes', async () => {
+    const resume = vi.fn();
+
+    const chunks = await readAll(
+      createResumableEventStream({
+        stream: createSource([created, delta(1)]),
+        resume,
+        maxReconnects: 3,
+      })
+    );
+
+    expect(chunks).toEqual([
+      { type: 'event', event: toParseResult(created) },
+      { type: 'event', event: toParseResult(delta(1)) },
+    ]);
+    expect(resume).not.toHaveBeenCalled();
+  });
+
+  it('should resume after the last sequence number and skip duplicates', async () => {
+    const resume = vi
+      .fn()
+      .mockResolvedValue(createSource([delta(1), delta(2), delta(3)]));
+
+    const chunks = await readAll(
+      createResumableEventStream({
+        stream: createSource(
+          [created, delta(1), delta(2)],
+          new TypeError('terminated')
+        ),
+        resume,
+        maxReconnects: 3,
+      })
+    );
+
+    expect(resume).toHaveBeenCalledWith({
+      responseId: 'resp-1',
+      startingAfter: 2,
+    });
+    expect(chunks).toEqual([
+      { type: 'event', event: toParseResult(created) },
+      { type: 'event', event: toParseResult(delta(1)) },
+      { type: 'event', event: toParseResult(delta(2)) },
+      {
+        type: 'resumed',
+        responseId: 'resp-1',
+        startingAfter: 2,
+        reconnects: 1,
+      },
+      { type: 'event', event: toParseResult(delta(3)) },
+    ]);
+  });
+
+  it('should fail once the maximum number of reconnects is reached', async () => {
+    const resume = vi
+      .fn()
+      .mockImplementation(async () =>
+        createSource([], new TypeError('terminated'))
+      );
+
+    await expect(
+      readAll(
+        createResumableEventStream({
+          stream: createSource([created], new TypeError('terminated')),
+          resume,
+          maxReconnects: 2,
+        })
+      )
+    ).rejects.toThrow('terminated');
+    expect(resume).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not resume before the response id is known', async () => {
+    const resume = vi.fn();
+
+    await expect(
+      readAll(
+        createResumableEventStream({
+          stream: createSource([delta(0)], new TypeError('terminated')),
+          resume,
+          maxReconnects: 3,
+        })
+      )
+    ).rejects.toThrow('terminated');
+    expect(resume).not.toHaveBeenCalled();
+  });
+
+  it('should not resume aborted streams', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const resume = vi.fn();
+
+    await expect(
+      readAll(
+        createResumableEventStream({
+          stream: createSource([created], new TypeError('terminated')),
+          resume,
+          maxReconnects: 3,
+          abortSignal: controller.signal,
+        })
+      )
+    ).rejects.toThrow('terminated');
+    expect(resume).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { isAbortError, type ParseResult } from '@ai-sdk/provider-utils';
+
+/**
+ * Chunk of a resumable event stream: either a parsed event or a marker
+ * that the stream was reconnected after a network failure.
+ */
+export type NordlysResumableStreamChunk<T> =
+  | { type: 'event'; event: ParseResult<T> }
+  | {
+      type: 'resumed';
+      responseId: string;
+      startingAfter: number;
+      reconnects: number;
+    };
+
+/**
+ * Wraps a Responses API event stream so that a dropped connection is resumed
+ * after the last received `sequence_number`. Events that were already
+ * delivered are skipped when the resumed stream replays them.
+ *
+ * The stream is only resumed once the response id and a sequence number are
+ * known; other failures and aborts are passed through as stream errors.
+ */
+export function createResumableEventStream<T>({
+  stream,
+  resume,
+  maxReconnects,
+  abortSignal,
+}: {
+  stream: ReadableStream<ParseResult<T>>;
+  resume: (options: {
+    responseId: string;
+    startingAfter: number;
+  }) => PromiseLike<ReadableStream<ParseResult<T>>>;
+  maxReconnects: number;
+  abortSignal?: AbortSignal;
+}): ReadableStream<NordlysResumableStreamChunk<T>> {
+  let reader = stream.getReader();
+  let responseId: string | undefined;
+  let lastSequenceNumber: number | undefined;
+  let reconnects = 0;
+
+  return new ReadableStream<NordlysResumableStreamChunk<T>>({
+    async pull(controller) {
+      while (true) {
+        let result: ReadableStreamReadResult<ParseResult<T>>;
+
+        try {
+          result = await reader.read();
+        } catch (error) {
+          if (
+            responseId == null ||
+            lastSequenceNumber == null ||
+            reconnects >= maxReconnects ||
+            abortSignal?.aborted ||
+            isAbortError(error)
+          ) {
+            throw error;
+          }
+
+          reconnects++;
+          reader = (
+            await resume({ responseId, startingAfter: lastSequenceNumber })
+          ).getReader();
+
+          controller.enqueue({
+            type: 'resumed',
+            responseId,
+            startingAfter: lastSequenceNumber,
+            reconnects,
+          });
+          continue;
+        }
+
+        if (result.done) {
+          controller.close();
+          return;
+        }
+
+        const { sequenceNumber, eventResponseId } = getEventPosition(
+          result.value.rawValue
+        );
+
+        // skip events that were delivered before the connection dropped
+        if (
+          sequenceNumber != null &&
+          lastSequenceNumber != null &&
+          sequenceNumber <= lastSequenceNumber
+        ) {
+          continue;
+        }
+
+        if (sequenceNumber != null) {
+          lastSequenceNumber = sequenceNumber;
+        }
+        responseId ??= eventResponseId;
+
+        controller.enqueue({ type: 'event', event: result.value });
+        return;
+      }
+    },
+
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
+
+function getEventPosition(rawValue: unknown): {
+  sequenceNumber: number | undefined;
+  eventResponseId: string | undefined;
+} {
+  if (rawValue == null || typeof rawValue !== 'object') {
+    return { sequenceNumber: undefined, eventResponseId: undefined };
+  }
+
+  const event = rawValue as {
+    sequence_number?: unknown;
+    response?: { id?: unknown };
+  };
+
+  return {
+    sequenceNumber:
+      typeof event.sequence_number === 'number'
+        ? event.sequence_number
+        : undefined,
+    eventResponseId:
+      typeof event.response?.id === 'string' ? event.response.id : undefined,
+  };
+}
@@ -0,0 +1,148 @@
+import { APICallError } from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import { getRetryDelayMs, withNordlysRetry } from './nordlys-retry';
+
+const createError = ({
+  isRetryable = true,
+  responseHeaders,
+}: {
+  isRetryable?: boolean;
+  responseHeaders?: Record<string, string>;
+} = {}) =>
+  new APICallError({
+    message: 'Request failed',
+    url: 'https://example.com',
+    requestBodyValues: {},
+    statusCode: isRetryable ? 429 : 400,
+    responseHeaders,
+    isRetryable,
+  });
+
+describe('withNordlysRetry', () => {
+  const retry = { maxAttempts: 3, initialDelayMs: 0 };
+
+  it('should retry retryable errors until the call succeeds', async () => {
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(createError())
+      .mockResolvedValueOnce('ok');
+
+    await expect(withNordlysRetry(fn, { retry })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const error = createError({ isRetryable: false });
+    const fn = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(withNordlysRetry(fn, { retry })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry errors that are not API call errors', async () => {
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new Error('boom'));
+
+    await expect(withNordlysRetry(fn, { retry })).rejects.toThrow('boom');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop after the maximum number of attempts', async () => {
+    const fn = vi.fn<() => Promise<string>>().mockRejectedValue(createError());
+
+    await expect(withNordlysRetry(fn, { retry })).rejects.toBeInstanceOf(
+      APICallError
+    );
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry when no retry settings are given', async () => {
+    const fn = vi.fn<() => Promise<string>>().mockRejectedValue(createError());
+
+    await expect(
+      withNordlysRetry(fn, { retry: undefined })
+    ).rejects.toBeInstanceOf(APICallError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry when the call was aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn<() => Promise<string>>().mockImplementation(async () => {
+      controller.abort();
+      throw createError();
+    });
+
+    await expect(
+      withNordlysRetry(fn, { retry, abortSignal: controller.signal })
+    ).rejects.toBeInstanceOf(APICallError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  it('should use exponential backoff without jitter', () => {
+    const retry = { initialDelayMs: 100, backoffFactor: 3, jitter: false };
+    const error = createError();
+
+    expect(getRetryDelayMs({ error, attempt: 1, retry })).toBe(100);
+    expect(getRetryDelayMs({ error, attempt: 2, retry })).toBe(300);
+    expect(getRetryDelayMs({ error, attempt: 3, retry })).toBe(900);
+  });
+
+  it('should keep at least half of the delay when applying jitter', () => {
+    const retry = { initialDelayMs: 1000 };
+    const error = createError();
+
+    expect(getRetryDelayMs({ error, attempt: 1, retry, random: () => 0 })).toBe(
+      500
+    );
+    expect(
+      getRetryDelayMs({ error, attempt: 1, retry, random: () => 0.5 })
+    ).toBe(750);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    const retry = { initialDelayMs: 1000, maxDelayMs: 1500, jitter: false };
+
+    expect(getRetryDelayMs({ error: createError(), attempt: 4, retry })).toBe(
+      1500
+    );
+  });
+
+  it('should prefer the retry-after-ms header', () => {
+    const error = createError({
+      responseHeaders: { 'retry-after-ms': '250', 'retry-after': '10' },
+    });
+
+    expect(getRetryDelayMs({ error, attempt: 1, retry: {} })).toBe(250);
+  });
+
+  it('should honor retry-after in seconds', () => {
+    const error = createError({ responseHeaders: { 'retry-after': '2' } });
+
+    expect(getRetryDelayMs({ error, attempt: 1, retry: {} })).toBe(2000);
+  });
+
+  it('should honor retry-after as an HTTP date', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    try {
+      const error = createError({
+        responseHeaders: { 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' },
+      });
+
+      expect(getRetryDelayMs({ error, attempt: 1, retry: {} })).toBe(5000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should cap retry-after at maxDelayMs', () => {
+    const error = createError({ responseHeaders: { 'retry-after': '120' } });
+
+    expect(
+      getRetryDelayMs({ error, attempt: 1, retry: { maxDelayMs: 10_000 } })
+    ).toBe(10_000);
+  });
+});
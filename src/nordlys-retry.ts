@@ -0,0 +1,125 @@
+import { APICallError } from '@ai-sdk/provider';
+import { delay } from '@ai-sdk/provider-utils';
+
+/**
+ * Retry policy for requests to the Nordlys API.
+ */
+export interface NordlysRetrySettings {
+  /**
+   * Maximum number of attempts, including the first request. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds. Defaults to 500.
+   */
+  initialDelayMs?: number;
+  /**
+   * Factor the delay is multiplied with after each retry. Defaults to 2.
+   */
+  backoffFactor?: number;
+  /**
+   * Upper bound for a single delay in milliseconds, including delays
+   * requested by `retry-after` headers. Defaults to 30000.
+   */
+  maxDelayMs?: number;
+  /**
+   * Randomize backoff delays to avoid synchronized retries. Defaults to true.
+   */
+  jitter?: boolean;
+}
+
+/**
+ * Runs `fn` and retries it according to the retry settings.
+ * Only errors classified as retryable (`APICallError.isRetryable`) are retried;
+ * abort errors and all other errors are rethrown immediately.
+ */
+export async function withNordlysRetry<T>(
+  fn: () => Promise<T>,
+  {
+    retry,
+    abortSignal,
+  }: {
+    retry: NordlysRetrySettings | undefined;
+    abortSignal?: AbortSignal;
+  }
+): Promise<T> {
+  const maxAttempts = retry?.maxAttempts ?? 3;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (
+        retry == null ||
+        attempt >= maxAttempts ||
+        abortSignal?.aborted ||
+        !APICallError.isInstance(error) ||
+        !error.isRetryable
+      ) {
+        throw error;
+      }
+
+      await delay(getRetryDelayMs({ error, attempt, retry }), { abortSignal });
+    }
+  }
+}
+
+/**
+ * Computes the delay before the next attempt. `retry-after-ms` and
+ * `retry-after` response headers take precedence over exponential backoff.
+ */
+export function getRetryDelayMs({
+  error,
+  attempt,
+  retry,
+  random = Math.random,
+}: {
+  error: APICallError;
+  attempt: number;
+  retry: NordlysRetrySettings;
+  random?: () => number;
+}): number {
+  const maxDelayMs = retry.maxDelayMs ?? 30_000;
+
+  const headerDelayMs = parseRetryAfterMs(error.responseHeaders);
+  if (headerDelayMs != null) {
+    return Math.min(headerDelayMs, maxDelayMs);
+  }
+
+  const backoffMs =
+    (retry.initialDelayMs ?? 500) * (retry.backoffFactor ?? 2) ** (attempt - 1);
+  const delayMs = Math.min(backoffMs, maxDelayMs);
+
+  // equal jitter: keep at least half of the delay
+  return retry.jitter === false
+    ? delayMs
+    : delayMs / 2 + (random() * delayMs) / 2;
+}
+
+function parseRetryAfterMs(
+  headers: Record<string, string> | undefined
+): number | undefined {
+  const retryAfterMs = headers?.['retry-after-ms'];
+  if (retryAfterMs != null) {
+    const ms = Number.parseFloat(retryAfterMs);
+    if (!Number.isNaN(ms) && ms >= 0) {
+      return ms;
+    }
+  }
+
+  const retryAfter = headers?.['retry-after'];
+  if (retryAfter != null) {
+    const seconds = Number.parseFloat(retryAfter);
+    if (!Number.isNaN(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+
+    // HTTP date format
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  return undefined;
+}
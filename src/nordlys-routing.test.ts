@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getNordlysRoutingMetadata,
+  type NordlysRoutingState,
+  recordNordlysItemModel,
+} from './nordlys-routing';
+
+describe('recordNordlysItemModel', () => {
+  it('should record models of output items and item events', () => {
+    const state: NordlysRoutingState = { itemModels: {} };
+
+    recordNordlysItemModel(state, {
+      type: 'message',
+      id: 'msg-1',
+      model: 'model-a',
+    });
+    recordNordlysItemModel(state, {
+      type: 'response.output_item.done',
+      item: { type: 'function_call', id: 'fc-1' },
+      model: 'model-b',
+    });
+    recordNordlysItemModel(state, {
+      type: 'response.output_text.done',
+      item_id: 'msg-2',
+      model: 'model-c',
+    });
+
+    expect(state.itemModels).toEqual({
+      'msg-1': 'model-a',
+      'fc-1': 'model-b',
+      'msg-2': 'model-c',
+    });
+  });
+
+  it('should ignore events without a model or item', () => {
+    const state: NordlysRoutingState = { itemModels: {} };
+
+    recordNordlysItemModel(state, { type: 'message', id: 'msg-1' });
+    recordNordlysItemModel(state, { type: 'response.error', model: 'x' });
+    recordNordlysItemModel(state, null);
+
+    expect(state.itemModels).toEqual({});
+  });
+});
+
+describe('getNordlysRoutingMetadata', () => {
+  it('should list every distinct model that served the response', () => {
+    expect(
+      getNordlysRoutingMetadata({
+        model: 'nordlys/hypernova',
+        provider: 'anthropic',
+        itemModels: {
+          'rs-1': 'reasoner-1',
+          'msg-1': 'writer-1',
+          'msg-2': 'writer-1',
+        },
+      })
+    ).toEqual({
+      model: 'nordlys/hypernova',
+      provider: 'anthropic',
+      models: ['nordlys/hypernova', 'reasoner-1', 'writer-1'],
+      items: [
+        { itemId: 'rs-1', model: 'reasoner-1' },
+        { itemId: 'msg-1', model: 'writer-1' },
+        { itemId: 'msg-2', model: 'writer-1' },
+      ],
+    });
+  });
+
+  it('should return undefined without routing information', () => {
+    expect(getNordlysRoutingMetadata({ itemModels: {} })).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import type { JSONObject } from '@ai-sdk/provider';
+
+/**
+ * Models and providers that served a response, collected while mapping it.
+ */
+export interface NordlysRoutingState {
+  /**
+   * Model reported for the response as a whole.
+   */
+  model?: string;
+  /**
+   * Upstream provider reported for the response.
+   */
+  provider?: string;
+  /**
+   * Model reported per output item, by item id.
+   */
+  itemModels: Record<string, string>;
+}
+
+/**
+ * Records the model reported on a raw output item or stream event.
+ * Events reference their item through `item_id` or a nested `item.id`.
+ */
+export function recordNordlysItemModel(
+  state: NordlysRoutingState,
+  rawValue: unknown
+): void {
+  if (rawValue == null || typeof rawValue !== 'object') {
+    return;
+  }
+
+  const event = rawValue as {
+    model?: unknown;
+    id?: unknown;
+    item_id?: unknown;
+    item?: { id?: unknown; model?: unknown };
+  };
+
+  const model =
+    typeof event.model === 'string'
+      ? event.model
+      : typeof event.item?.model === 'string'
+        ? event.item.model
+        : undefined;
+
+  const itemId =
+    typeof event.item_id === 'string'
+      ? event.item_id
+      : typeof event.item?.id === 'string'
+        ? event.item.id
+        : typeof event.id === 'string'
+          ? event.id
+          : undefined;
+
+  if (model != null && itemId != null) {
+    state.itemModels[itemId] = model;
+  }
+}
+
+/**
+ * Builds `providerMetadata.nordlys.routing`: the response model and provider,
+ * every distinct model that served the response, and the model per output item.
+ * Returns undefined when no routing information was reported.
+ */
+export function getNordlysRoutingMetadata(
+  state: NordlysRoutingState
+): JSONObject | undefined {
+  const items = Object.entries(state.itemModels).map(([itemId, model]) => ({
+    itemId,
+    model,
+  }));
+
+  const models = [
+    ...new Set([
+      ...(state.model != null ? [state.model] : []),
+      ...items.map((item) => item.model),
+    ]),
+  ];
+
+  if (models.length === 0 && state.provider == null) {
+    return undefined;
+  }
+
+  return {
+    ...(state.model != null && { model: state.model }),
+    ...(state.provider != null && { provider: state.provider }),
+    models,
+    items,
+  };
+}
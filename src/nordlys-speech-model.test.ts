@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NordlysSpeechModel } from './nordlys-speech-model';
+
+const audioBytes = new Uint8Array([73, 68, 51, 4]);
+
+const createModel = (mockFetch: typeof fetch) =>
+  new NordlysSpeechModel('nordlys/speech', {
+    provider: 'nordlys.speech',
+    baseURL: 'https://example.com',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: mockFetch,
+    currentDate: () => new Date('2025-01-01T00:00:00Z'),
+  });
+
+const createAudioFetch = () =>
+  vi.fn<typeof fetch>().mockResolvedValue(
+    new Response(audioBytes, {
+      headers: { 'content-type': 'audio/mpeg', 'x-request-id': 'req-1' },
+    })
+  );
+
+describe('NordlysSpeechModel', () => {
+  it('should send the request to the speech endpoint', async () => {
+    const mockFetch = createAudioFetch();
+
+    await createModel(mockFetch).doGenerate({
+      text: 'Hello from Nordlys',
+      voice: 'nova',
+      outputFormat: 'wav',
+      speed: 1.25,
+      instructions: 'Speak calmly',
+    });
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/audio/speech');
+    expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+      model: 'nordlys/speech',
+      input: 'Hello from Nordlys',
+      voice: 'nova',
+      response_format: 'wav',
+      speed: 1.25,
+      instructions: 'Speak calmly',
+    });
+  });
+
+  it('should return binary audio and response metadata', async () => {
+    const mockFetch = createAudioFetch();
+
+    const result = await createModel(mockFetch).doGenerate({
+      text: 'Hello from Nordlys',
+    });
+
+    expect(result.audio).toEqual(audioBytes);
+    expect(result.warnings).toEqual([]);
+    expect(result.response).toMatchObject({
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      modelId: 'nordlys/speech',
+      headers: expect.objectContaining({ 'x-request-id': 'req-1' }),
+    });
+    expect(JSON.parse(result.request?.body as string)).toMatchObject({
+      response_format: 'mp3',
+    });
+  });
+
+  it('should warn about unsupported settings', async () => {
+    const mockFetch = createAudioFetch();
+
+    const result = await createModel(mockFetch).doGenerate({
+      text: 'Hello from Nordlys',
+      outputFormat: 'ogg',
+      language: 'no',
+    });
+
+    expect(result.warnings).toEqual([
+      {
+        type: 'unsupported',
+        feature: 'outputFormat',
+        details: 'Unsupported output format: ogg. Using mp3 instead.',
+      },
+      {
+        type: 'unsupported',
+        feature: 'language',
+        details:
+          'Nordlys speech models detect the language from the input text.',
+      },
+    ]);
+    expect(
+      JSON.parse(mockFetch.mock.calls[0][1]?.body as string).response_format
+    ).toBe('mp3');
+  });
+});
@@ -0,0 +1,122 @@
+import type {
+  SharedV3Warning,
+  SpeechModelV3,
+  SpeechModelV3CallOptions,
+} from '@ai-sdk/provider';
+import type { FetchFunction } from '@ai-sdk/provider-utils';
+import {
+  combineHeaders,
+  createBinaryResponseHandler,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { nordlysFailedResponseHandler } from './nordlys-error';
+import { type NordlysRetrySettings, withNordlysRetry } from './nordlys-retry';
+
+interface NordlysSpeechConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  currentDate?: () => Date;
+  retry?: NordlysRetrySettings;
+}
+
+/**
+ * Audio formats supported by the speech endpoint.
+ */
+const supportedOutputFormats = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'];
+
+export class NordlysSpeechModel implements SpeechModelV3 {
+  readonly specificationVersion = 'v3';
+  readonly modelId: string;
+  private readonly config: NordlysSpeechConfig;
+
+  constructor(modelId: string, config: NordlysSpeechConfig) {
+    this.modelId = modelId;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  /**
+   * Generates speech audio for the given text.
+   * @param options - Call options including text, voice, output format, speed and instructions
+   * @returns Promise resolving to the binary audio, warnings and response details
+   */
+  async doGenerate({
+    text,
+    voice,
+    outputFormat,
+    speed,
+    instructions,
+    language,
+    headers,
+    abortSignal,
+  }: SpeechModelV3CallOptions): Promise<
+    Awaited<ReturnType<SpeechModelV3['doGenerate']>>
+  > {
+    const warnings: SharedV3Warning[] = [];
+
+    let responseFormat = outputFormat ?? 'mp3';
+    if (!supportedOutputFormats.includes(responseFormat)) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'outputFormat',
+        details: `Unsupported output format: ${responseFormat}. Using mp3 instead.`,
+      });
+      responseFormat = 'mp3';
+    }
+
+    if (language != null) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'language',
+        details:
+          'Nordlys speech models detect the language from the input text.',
+      });
+    }
+
+    const currentDate = this.config.currentDate?.() ?? new Date();
+
+    const body = {
+      model: this.modelId,
+      input: text,
+      ...(voice && { voice }),
+      response_format: responseFormat,
+      ...(speed != null && { speed }),
+      ...(instructions && { instructions }),
+    };
+
+    const {
+      value: audio,
+      responseHeaders,
+      rawValue,
+    } = await withNordlysRetry(
+      () =>
+        postJsonToApi({
+          url: `${this.config.baseURL}/audio/speech`,
+          headers: combineHeaders(this.config.headers(), headers),
+          body,
+          failedResponseHandler: nordlysFailedResponseHandler,
+          successfulResponseHandler: createBinaryResponseHandler(),
+          abortSignal,
+          fetch: this.config.fetch,
+        }),
+      { retry: this.config.retry, abortSignal }
+    );
+
+    return {
+      audio,
+      warnings,
+      request: { body: JSON.stringify(body) },
+      response: {
+        timestamp: currentDate,
+        modelId: this.modelId,
+        headers: responseHeaders,
+        body: rawValue,
+      },
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { fileSearch } from './nordlys-file-search-tool';
+import { imageGeneration } from './nordlys-image-generation-tool';
+import { webSearch } from './nordlys-web-search-tool';
+
+/**
+ * Provider-executed tools that run on the Nordlys platform.
+ */
+export const nordlysTools = {
+  /**
+   * File search tool that retrieves relevant chunks from vector stores.
+   * File citations in the response are returned as document `source` parts.
+   *
+   * @param vectorStoreIds - IDs of the vector stores to search.
+   * @param maxNumResults - Maximum number of results to return.
+   * @param ranking - Ranker and score threshold for the results.
+   * @param filters - Attribute filter applied to the files before searching.
+   */
+  fileSearch,
+  /**
+   * Image generation tool that lets the model create images during the conversation.
+   * Generated images are returned as `file` content parts; when `partialImages`
+   * is set, partial images are streamed as preliminary tool results.
+   *
+   * @param outputFormat - Image format (png, jpeg or webp).
+   * @param size - Image size, e.g. `1024x1024`.
+   * @param quality - Image quality.
+   * @param background - Background type.
+   * @param partialImages - Number of partial images to stream.
+   */
+  imageGeneration,
+  /**
+   * Web search tool that lets the model search the web for up-to-date information.
+   * URL citations in the response are returned as `source` content parts.
+   *
+   * @param searchContextSize - Amount of context window space to use for the search.
+   * @param userLocation - Approximate user location to refine search results.
+   */
+  webSearch,
+};
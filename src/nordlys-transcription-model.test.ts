@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NordlysTranscriptionModel } from './nordlys-transcription-model';
+
+const createModel = (mockFetch: typeof fetch) =>
+  new NordlysTranscriptionModel('nordlys/transcribe', {
+    provider: 'nordlys.transcription',
+    baseURL: 'https://example.com',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: mockFetch,
+    currentDate: () => new Date('2025-01-01T00:00:00Z'),
+  });
+
+const createJsonFetch = (body: unknown) =>
+  vi.fn<typeof fetch>().mockResolvedValue(
+    new Response(JSON.stringify(body), {
+      headers: { 'content-type': 'application/json' },
+    })
+  );
+
+const transcriptionResponse = {
+  text: 'Hello from Nordlys.',
+  language: 'en',
+  duration: 2.5,
+  segments: [
+    { id: 0, text: 'Hello', start: 0, end: 1.2 },
+    { id: 1, text: 'from Nordlys.', start: 1.2, end: 2.5 },
+  ],
+};
+
+const audio = new Uint8Array([1, 2, 3, 4]);
+
+describe('NordlysTranscriptionModel', () => {
+  it('should post multipart audio to the transcriptions endpoint', async () => {
+    const mockFetch = createJsonFetch(transcriptionResponse);
+
+    await createModel(mockFetch).doGenerate({
+      audio,
+      mediaType: 'audio/wav',
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://example.com/audio/transcriptions');
+
+    const formData = init?.body as FormData;
+    expect(formData.get('model')).toBe('nordlys/transcribe');
+    expect(formData.get('response_format')).toBe('verbose_json');
+
+    const file = formData.get('file') as File;
+    expect(file.name).toBe('audio.wav');
+    expect(file.type).toBe('audio/wav');
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(audio);
+
+    // multipart requests must not be sent with a JSON content type
+    expect(init?.headers).not.toHaveProperty('content-type');
+  });
+
+  it('should accept base64 encoded audio', async () => {
+    const mockFetch = createJsonFetch(transcriptionResponse);
+
+    await createModel(mockFetch).doGenerate({
+      audio: 'AQIDBA==',
+      mediaType: 'audio/mpeg',
+    });
+
+    const file = (mockFetch.mock.calls[0][1]?.body as FormData).get(
+      'file'
+    ) as File;
+    expect(file.name).toBe('audio.mp3');
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(audio);
+  });
+
+  it('should forward provider options', async () => {
+    const mockFetch = createJsonFetch(transcriptionResponse);
+
+    await createModel(mockFetch).doGenerate({
+      audio,
+      mediaType: 'audio/wav',
+      providerOptions: {
+        nordlys: {
+          prompt: 'Nordlys, hypernova',
+          temperature: 0.2,
+          language: 'en',
+          timestamp_granularities: ['word', 'segment'],
+        },
+      },
+    });
+
+    const formData = mockFetch.mock.calls[0][1]?.body as FormData;
+    expect(formData.get('prompt')).toBe('Nordlys, hypernova');
+    expect(formData.get('temperature')).toBe('0.2');
+    expect(formData.get('language')).toBe('en');
+    expect(formData.getAll('timestamp_granularities[]')).toEqual([
+      'word',
+      'segment',
+    ]);
+  });
+
+  it('should return text, segments, language and duration', async () => {
+    const mockFetch = createJsonFetch(transcriptionResponse);
+
+    const result = await createModel(mockFetch).doGenerate({
+      audio,
+      mediaType: 'audio/wav',
+    });
+
+    expect(result).toMatchObject({
+      text: 'Hello from Nordlys.',
+      segments: [
+        { text: 'Hello', startSecond: 0, endSecond: 1.2 },
+        { text: 'from Nordlys.', startSecond: 1.2, endSecond: 2.5 },
+      ],
+      language: 'en',
+      durationInSeconds: 2.5,
+      warnings: [],
+      response: {
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+        modelId: 'nordlys/transcribe',
+        body: transcriptionResponse,
+      },
+    });
+  });
+
+  it('should fall back to word timestamps', async () => {
+    const mockFetch = createJsonFetch({
+      text: 'Hello there',
+      words: [
+        { word: 'Hello', start: 0, end: 0.5 },
+        { word: 'there', start: 0.5, end: 1 },
+      ],
+    });
+
+    const result = await createModel(mockFetch).doGenerate({
+      audio,
+      mediaType: 'audio/wav',
+    });
+
+    expect(result.segments).toEqual([
+      { text: 'Hello', startSecond: 0, endSecond: 0.5 },
+      { text: 'there', startSecond: 0.5, endSecond: 1 },
+    ]);
+    expect(result.language).toBeUndefined();
+    expect(result.durationInSeconds).toBeUndefined();
+  });
+});
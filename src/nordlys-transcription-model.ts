@@ -0,0 +1,167 @@
+import type {
+  TranscriptionModelV3,
+  TranscriptionModelV3CallOptions,
+} from '@ai-sdk/provider';
+import type { FetchFunction } from '@ai-sdk/provider-utils';
+import {
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  mediaTypeToExtension,
+  parseProviderOptions,
+  postFormDataToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { nordlysFailedResponseHandler } from './nordlys-error';
+import { type NordlysRetrySettings, withNordlysRetry } from './nordlys-retry';
+import { nordlysTranscriptionProviderOptions } from './nordlys-transcription-options';
+
+interface NordlysTranscriptionConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  currentDate?: () => Date;
+  retry?: NordlysRetrySettings;
+}
+
+// Zod schema for the verbose_json transcription response
+const nordlysTranscriptionResponseSchema = z.object({
+  text: z.string(),
+  language: z.string().nullish(),
+  duration: z.number().nullish(),
+  segments: z
+    .array(
+      z.object({
+        text: z.string(),
+        start: z.number(),
+        end: z.number(),
+      })
+    )
+    .nullish(),
+  words: z
+    .array(
+      z.object({
+        word: z.string(),
+        start: z.number(),
+        end: z.number(),
+      })
+    )
+    .nullish(),
+});
+
+export class NordlysTranscriptionModel implements TranscriptionModelV3 {
+  readonly specificationVersion = 'v3';
+  readonly modelId: string;
+  private readonly config: NordlysTranscriptionConfig;
+
+  constructor(modelId: string, config: NordlysTranscriptionConfig) {
+    this.modelId = modelId;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  /**
+   * Transcribes the given audio.
+   * @param options - Call options including the audio data and its media type
+   * @returns Promise resolving to the transcript with segments, language and duration
+   */
+  async doGenerate({
+    audio,
+    mediaType,
+    providerOptions,
+    headers,
+    abortSignal,
+  }: TranscriptionModelV3CallOptions): Promise<
+    Awaited<ReturnType<TranscriptionModelV3['doGenerate']>>
+  > {
+    const nordlysOptions =
+      (await parseProviderOptions({
+        provider: 'nordlys',
+        providerOptions,
+        schema: nordlysTranscriptionProviderOptions,
+      })) ?? {};
+
+    const currentDate = this.config.currentDate?.() ?? new Date();
+
+    // copy binary input so the blob is always backed by a plain ArrayBuffer
+    const audioData =
+      typeof audio === 'string'
+        ? convertBase64ToUint8Array(audio)
+        : new Uint8Array(audio);
+
+    const formData = new FormData();
+    formData.append('model', this.modelId);
+    formData.append(
+      'file',
+      new Blob([audioData], { type: mediaType }),
+      `audio.${mediaTypeToExtension(mediaType)}`
+    );
+    // verbose_json is required to receive segments, language and duration
+    formData.append('response_format', 'verbose_json');
+
+    if (nordlysOptions.prompt != null) {
+      formData.append('prompt', nordlysOptions.prompt);
+    }
+    if (nordlysOptions.temperature != null) {
+      formData.append('temperature', String(nordlysOptions.temperature));
+    }
+    if (nordlysOptions.language != null) {
+      formData.append('language', nordlysOptions.language);
+    }
+    for (const granularity of nordlysOptions.timestamp_granularities ?? []) {
+      formData.append('timestamp_granularities[]', granularity);
+    }
+
+    const {
+      value: response,
+      responseHeaders,
+      rawValue,
+    } = await withNordlysRetry(
+      () =>
+        postFormDataToApi({
+          url: `${this.config.baseURL}/audio/transcriptions`,
+          headers: combineHeaders(this.config.headers(), headers),
+          formData,
+          failedResponseHandler: nordlysFailedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            nordlysTranscriptionResponseSchema
+          ),
+          abortSignal,
+          fetch: this.config.fetch,
+        }),
+      { retry: this.config.retry, abortSignal }
+    );
+
+    // Prefer segment timestamps; fall back to word timestamps when only those were requested
+    const segments =
+      response.segments?.map((segment) => ({
+        text: segment.text,
+        startSecond: segment.start,
+        endSecond: segment.end,
+      })) ??
+      response.words?.map((word) => ({
+        text: word.word,
+        startSecond: word.start,
+        endSecond: word.end,
+      })) ??
+      [];
+
+    return {
+      text: response.text,
+      segments,
+      language: response.language ?? undefined,
+      durationInSeconds: response.duration ?? undefined,
+      warnings: [],
+      response: {
+        timestamp: currentDate,
+        modelId: this.modelId,
+        headers: responseHeaders,
+        body: rawValue,
+      },
+    };
+  }
+}
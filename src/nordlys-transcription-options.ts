@@ -0,0 +1,33 @@
+// Nordlys transcription model options/types
+
+import { z } from 'zod/v4';
+
+/**
+ * Provider options for Nordlys transcription models.
+ */
+export const nordlysTranscriptionProviderOptions = z.object({
+  /**
+   * Text to guide the model's style or continue a previous audio segment.
+   */
+  prompt: z.string().optional(),
+  /**
+   * Sampling temperature between 0 and 1.
+   */
+  temperature: z.number().min(0).max(1).optional(),
+  /**
+   * Language of the input audio as an ISO-639-1 code (e.g. 'en').
+   * Improves accuracy and latency when known.
+   */
+  language: z.string().optional(),
+  /**
+   * Timestamp granularities to populate. Defaults to segment timestamps.
+   */
+  timestamp_granularities: z.array(z.enum(['word', 'segment'])).optional(),
+});
+
+/**
+ * Type for validated Nordlys transcription provider options.
+ */
+export type NordlysTranscriptionProviderOptions = z.infer<
+  typeof nordlysTranscriptionProviderOptions
+>;
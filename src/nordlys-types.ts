@@ -5,40 +5,67 @@
 
 // Re-export all types from nordlys-responses-types.ts
 export type {
+  NordlysFileSearchComparisonFilter,
+  NordlysFileSearchCompoundFilter,
+  NordlysFileSearchFilter,
+  NordlysFileSearchTool,
+  NordlysFunctionTool,
+  NordlysImageGenerationTool,
+  NordlysModelCapability,
   NordlysResponse,
   NordlysResponseCompletedEvent,
   NordlysResponseCreatedEvent,
   NordlysResponseErrorEvent,
+  NordlysResponseFailedEvent,
+  NordlysResponseFileCitation,
   NordlysResponseFileSearchToolCall,
   NordlysResponseFunctionCallArgumentsDeltaEvent,
   NordlysResponseFunctionCallArgumentsDoneEvent,
   NordlysResponseFunctionToolCall,
   NordlysResponseFunctionWebSearch,
+  NordlysResponseImageGenerationCall,
+  NordlysResponseImageGenerationPartialImageEvent,
+  NordlysResponseIncompleteEvent,
   NordlysResponseInProgressEvent,
+  NordlysResponseInputAssistantMessage,
   NordlysResponseInputAudio,
   NordlysResponseInputContentUnion,
   NordlysResponseInputFile,
   NordlysResponseInputFunctionCallOutput,
   NordlysResponseInputImage,
+  NordlysResponseInputItemReference,
   NordlysResponseInputItemUnion,
+  NordlysResponseInputReasoning,
   NordlysResponseInputSystemMessage,
   NordlysResponseInputText,
   NordlysResponseInputUserMessage,
+  NordlysResponseOutputAudio,
+  NordlysResponseOutputAudioDeltaEvent,
+  NordlysResponseOutputAudioTranscriptDeltaEvent,
+  NordlysResponseOutputAudioTranscriptDoneEvent,
   NordlysResponseOutputItemAddedEvent,
   NordlysResponseOutputItemDoneEvent,
   NordlysResponseOutputItemUnion,
   NordlysResponseOutputMessage,
   NordlysResponseOutputMessageContentUnion,
   NordlysResponseOutputText,
+  NordlysResponseOutputTextAnnotation,
+  NordlysResponseOutputTextAnnotationAddedEvent,
+  NordlysResponseOutputTextLogprob,
   NordlysResponseReasoningItem,
   NordlysResponseReasoningTextDeltaEvent,
   NordlysResponseRefusal,
   NordlysResponseRequest,
   NordlysResponseStreamEventUnion,
+  NordlysResponseTextConfig,
   NordlysResponseTextDeltaEvent,
+  NordlysResponseTextFormat,
+  NordlysResponseUrlCitation,
   NordlysResponseUsage,
+  NordlysRoutingParam,
   NordlysToolChoiceUnion,
   NordlysToolUnion,
+  NordlysWebSearchTool,
 } from './nordlys-responses-types';
 
 // Legacy types for backward compatibility (deprecated - will be removed in future versions)
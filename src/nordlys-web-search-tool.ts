@@ -0,0 +1,55 @@
+import { createProviderToolFactoryWithOutputSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+/**
+ * Arguments for configuring the Nordlys web search tool.
+ */
+export const webSearchArgsSchema = z.object({
+  /**
+   * High level guidance for the amount of context window space to use for the search.
+   */
+  searchContextSize: z.enum(['low', 'medium', 'high']).optional(),
+  /**
+   * Approximate location of the user, used to refine search results.
+   */
+  userLocation: z
+    .object({
+      type: z.literal('approximate'),
+      city: z.string().optional(),
+      region: z.string().optional(),
+      country: z.string().optional(),
+      timezone: z.string().optional(),
+    })
+    .optional(),
+});
+
+export type NordlysWebSearchArgs = z.infer<typeof webSearchArgsSchema>;
+
+/**
+ * Action performed by a web search call (search, open page or find in page).
+ */
+export const webSearchActionSchema = z.object({
+  type: z.string(),
+  query: z.string().nullish(),
+  url: z.string().nullish(),
+  pattern: z.string().nullish(),
+  sources: z.array(z.object({ type: z.string(), url: z.string() })).nullish(),
+});
+
+/**
+ * Result of a provider-executed web search call.
+ */
+export const webSearchOutputSchema = z.object({
+  status: z.string().optional(),
+  action: webSearchActionSchema.nullish(),
+});
+
+export const webSearch = createProviderToolFactoryWithOutputSchema<
+  Record<string, never>,
+  z.infer<typeof webSearchOutputSchema>,
+  NordlysWebSearchArgs
+>({
+  id: 'nordlys.web_search',
+  inputSchema: z.object({}),
+  outputSchema: webSearchOutputSchema,
+});